@@ -1,25 +1,30 @@
 // Copyright (c) Microsoft Corporation. All rights reserved.
 // Licensed under the MIT license.
 
-import { QuickPickItem } from "coc.nvim";
+import { QuickPickItem, workspace } from "coc.nvim";
 import { IDependency, serviceManager } from "./model";
 import { readFileFromExtensionRoot, writeFileToExtensionRoot } from "./Utils";
 
-const DEPENDENCIES_HISTORY_FILENAME: string = ".last_used_dependencies";
+const DEPENDENCIES_HISTORY_FILENAME: string = ".dependencies_history.json";
+// written by previous versions, holding the ids of the last selection only
+const LEGACY_HISTORY_FILENAME: string = ".last_used_dependencies";
+const MAX_FREQUENTLY_USED: number = 5;
+
+interface IDependenciesHistory {
+    // number of selections each dependency was part of
+    counts: { [id: string]: number };
+    // previous selections, the most recent first
+    selections: string[][];
+}
 
 export class DependencyManager {
-    public lastselected: string | null = null;
+    public history: IDependenciesHistory = { counts: {}, selections: [] };
     public dependencies: IDependency[] = [];
     public dict: { [key: string]: IDependency } = {};
     public selectedIds: string[] = [];
 
     constructor(public bootVersion: string) {}
 
-    public updateLastUsedDependencies(v: IDependenciesItem): void {
-        writeFileToExtensionRoot(DEPENDENCIES_HISTORY_FILENAME, v.id);
-        this.lastselected = v.id;
-    }
-
     public async initialize(dependencies: IDependency[]): Promise<void> {
         this.dependencies = dependencies.filter((dep) => dep !== undefined);
         for (const dep of this.dependencies) {
@@ -27,8 +32,7 @@ export class DependencyManager {
                 this.dict[dep.id] = dep;
             }
         }
-        const idList: string | null = await readFileFromExtensionRoot(DEPENDENCIES_HISTORY_FILENAME);
-        this.lastselected = idList;
+        this.history = await readDependenciesHistory();
     }
 
     public async getQuickPickItems(
@@ -40,11 +44,13 @@ export class DependencyManager {
         }
         const ret: Array<QuickPickItem & IDependenciesItem> = [];
         if (this.selectedIds.length === 0) {
-            if (options && options.hasLastSelected && this.lastselected) {
-                const item = this.genLastSelectedItem(this.lastselected);
-                if (item) {
-                    ret.push(item);
-                }
+            if (options && options.hasLastSelected) {
+                this.history.selections.slice(0, getHistorySize()).forEach((selection, index) => {
+                    const item = this.genLastSelectedItem(selection, index === 0 ? "Last used" : "Used before");
+                    if (item) {
+                        ret.push(item);
+                    }
+                });
             }
         }
         ret.push({
@@ -53,6 +59,12 @@ export class DependencyManager {
             itemType: "selection",
             label: `Selected ${this.selectedIds.length} dependenc${this.selectedIds.length === 1 ? "y" : "ies"}`
         });
+        ret.push({
+            description: "Reference, guides and samples",
+            id: "",
+            itemType: "docs",
+            label: "Open starter documentation..."
+        });
 
         const selectedDeps = this.getSelectedDependencies();
         if (selectedDeps.length > 0) {
@@ -66,7 +78,19 @@ export class DependencyManager {
             ret.push(...selectedItems);
         }
 
-        const unselectedDeps = this.getUnselectedDependencies();
+        const frequentDeps = this.getFrequentlyUsedDependencies();
+        if (frequentDeps.length > 0) {
+            ret.push(newSeparator("Frequently used"));
+            const frequentItems = frequentDeps.map((dep) => ({
+                description: dep.group,
+                id: dep.id,
+                itemType: "dependency",
+                label: `(frequently used) ${dep.name}`
+            })) as (QuickPickItem & IDependenciesItem)[];
+            ret.push(...frequentItems);
+        }
+
+        const unselectedDeps = this.getUnselectedDependencies().filter((dep) => !frequentDeps.includes(dep));
         if (unselectedDeps.length > 0) {
             let group: string | undefined;
             for (const dep of unselectedDeps) {
@@ -94,6 +118,17 @@ export class DependencyManager {
         return this.dependencies.filter((dep: IDependency) => this.selectedIds.indexOf(dep.id) < 0);
     }
 
+    /**
+     * Get the unselected dependencies which were selected most often, the most frequent first.
+     */
+    public getFrequentlyUsedDependencies(): IDependency[] {
+        const count = (dep: IDependency) => this.history.counts[dep.id] ?? 0;
+        return this.getUnselectedDependencies()
+            .filter((dep) => count(dep) > 0)
+            .sort((a, b) => count(b) - count(a))
+            .slice(0, MAX_FREQUENTLY_USED);
+    }
+
     public toggleDependency(id: string): void {
         const index: number = this.selectedIds.indexOf(id);
         if (index >= 0) {
@@ -103,15 +138,15 @@ export class DependencyManager {
         }
     }
 
-    private genLastSelectedItem(idList: string): (QuickPickItem & IDependenciesItem) | null {
-        const availIdList: string[] = idList.split(",").filter((id: string) => this.dict[id]);
+    private genLastSelectedItem(idList: string[], label: string): (QuickPickItem & IDependenciesItem) | null {
+        const availIdList: string[] = idList.filter((id: string) => this.dict[id]);
         const availNameList: string[] = availIdList.map((id: string) => this.dict[id].name).filter((v) => v !== undefined);
         if (availNameList?.length) {
             return {
                 description: availNameList.join(", "),
                 id: availIdList.join(","),
                 itemType: "lastUsed",
-                label: "$(clock) Last used"
+                label: `$(clock) ${label}`
             };
         } else {
             return null;
@@ -119,6 +154,52 @@ export class DependencyManager {
     }
 }
 
+/**
+ * Record the dependencies of a project once it is generated, or added to a project, to rank them and offer them again.
+ */
+export async function updateDependenciesHistory(ids: string[]): Promise<void> {
+    if (ids.length === 0) {
+        return;
+    }
+    const history: IDependenciesHistory = await readDependenciesHistory();
+    ids.forEach((id) => (history.counts[id] = (history.counts[id] ?? 0) + 1));
+    const key: string = [...ids].sort().join(",");
+    history.selections = [ids, ...history.selections.filter((selection) => [...selection].sort().join(",") !== key)].slice(
+        0,
+        getHistorySize()
+    );
+    await writeFileToExtensionRoot(DEPENDENCIES_HISTORY_FILENAME, JSON.stringify(history));
+}
+
+/**
+ * Forget the dependencies selected so far.
+ */
+export async function clearDependenciesHistory(): Promise<void> {
+    const history: IDependenciesHistory = { counts: {}, selections: [] };
+    await writeFileToExtensionRoot(DEPENDENCIES_HISTORY_FILENAME, JSON.stringify(history));
+}
+
+async function readDependenciesHistory(): Promise<IDependenciesHistory> {
+    const content: string | null = await readFileFromExtensionRoot(DEPENDENCIES_HISTORY_FILENAME);
+    if (content === null) {
+        // start from the last selection of previous versions
+        const idList: string | null = await readFileFromExtensionRoot(LEGACY_HISTORY_FILENAME);
+        const ids: string[] = idList?.split(",").filter(Boolean) ?? [];
+        return { counts: {}, selections: ids.length > 0 ? [ids] : [] };
+    }
+    try {
+        const history: Partial<IDependenciesHistory> = JSON.parse(content);
+        return { counts: history.counts ?? {}, selections: history.selections ?? [] };
+    } catch (error) {
+        return { counts: {}, selections: [] };
+    }
+}
+
+// number of previous selections offered
+function getHistorySize(): number {
+    return workspace.getConfiguration("spring.initializr").get<number>("dependenciesHistorySize", 5);
+}
+
 function newSeparator(name: string | undefined): any {
     return {
         label: name,
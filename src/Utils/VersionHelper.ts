@@ -31,6 +31,13 @@ export function matchRange(version: string, range: string): boolean {
     return compareVersions(range, version) <= 0;
 }
 
+/**
+ * Milestones, release candidates and snapshots are not published to maven central.
+ */
+export function isPreRelease(version: string): boolean {
+    return parseQualifier(version.split(/\.|-/g).slice(3).join("-")) !== "RELEASE";
+}
+
 export function compareVersions(a: string, b: string): number {
     let result: number;
 
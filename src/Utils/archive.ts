@@ -0,0 +1,159 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license.
+
+import * as fse from "fs-extra";
+import * as path from "path";
+import * as yauzl from "yauzl";
+import { UserError } from "./error";
+
+// wrapper scripts which have to stay executable, even when the archive does not record permissions
+const EXECUTABLE_ENTRIES: string[] = ["mvnw", "gradlew"];
+const MAX_LISTED_CONFLICTS: number = 5;
+
+export interface IArchiveEntry {
+    // path relative to the root of the archive, always separated by "/"
+    path: string;
+    isDirectory: boolean;
+    // unix permission bits, if recorded in the archive
+    mode?: number;
+    content: Buffer;
+}
+
+export enum EntryStatus {
+    CREATE = "create",
+    OVERWRITE = "overwrite",
+    IDENTICAL = "identical"
+}
+
+/**
+ * What to do with files of the project which already exist in the target folder with different content.
+ */
+export enum ConflictPolicy {
+    OVERWRITE = "overwrite",
+    SKIP = "skip",
+    // the generated file is written next to the existing one with a suffix
+    KEEP_BOTH = "keepBoth",
+    ABORT = "abort"
+}
+
+/**
+ * Read all entries of the archive into memory, project archives are small enough for that.
+ */
+export async function readArchive(archivePath: string): Promise<IArchiveEntry[]> {
+    return await new Promise((resolve: (res: IArchiveEntry[]) => void, reject: (e: Error) => void): void => {
+        yauzl.open(archivePath, { lazyEntries: true }, (err: Error | null, zipfile?: yauzl.ZipFile) => {
+            if (err || !zipfile) {
+                return reject(err ?? new Error("Unable to open archive."));
+            }
+            const entries: IArchiveEntry[] = [];
+            zipfile.on("error", reject);
+            zipfile.on("end", () => resolve(entries));
+            zipfile.on("entry", (entry: yauzl.Entry) => {
+                const mode: number = (entry.externalFileAttributes >>> 16) & 0o7777;
+                const base = { path: entry.fileName, mode: mode !== 0 ? mode : undefined };
+                if (entry.fileName.endsWith("/")) {
+                    entries.push({ ...base, isDirectory: true, content: Buffer.alloc(0) });
+                    zipfile.readEntry();
+                    return;
+                }
+                zipfile.openReadStream(entry, (streamErr: Error | null, stream?: NodeJS.ReadableStream) => {
+                    if (streamErr || !stream) {
+                        return reject(streamErr ?? new Error(`Unable to read ${entry.fileName}.`));
+                    }
+                    const chunks: Buffer[] = [];
+                    stream.on("data", (chunk: Buffer) => chunks.push(chunk));
+                    stream.on("error", reject);
+                    stream.on("end", () => {
+                        entries.push({ ...base, isDirectory: false, content: Buffer.concat(chunks) });
+                        zipfile.readEntry();
+                    });
+                });
+            });
+            zipfile.readEntry();
+        });
+    });
+}
+
+/**
+ * Compare the file entry against the file at the same location in the target folder.
+ */
+export async function getEntryStatus(entry: IArchiveEntry, targetFolder: string): Promise<EntryStatus> {
+    const filepath: string = path.join(targetFolder, entry.path);
+    if (!(await fse.pathExists(filepath))) {
+        return EntryStatus.CREATE;
+    }
+    const existing: Buffer = await fse.readFile(filepath);
+    return existing.equals(entry.content) ? EntryStatus.IDENTICAL : EntryStatus.OVERWRITE;
+}
+
+/**
+ * Write the entries into the target folder. All entries are checked before anything is written, so an archive with
+ * entries escaping the target folder, or conflicting files under the abort policy, leaves the folder untouched.
+ */
+export async function extractArchive(
+    entries: IArchiveEntry[],
+    targetFolder: string,
+    conflictPolicy: ConflictPolicy = ConflictPolicy.OVERWRITE
+): Promise<void> {
+    const root: string = path.resolve(targetFolder);
+    const filepaths: string[] = entries.map((entry) => resolveEntryPath(root, entry));
+    const statuses: Array<EntryStatus | undefined> = await Promise.all(
+        entries.map(async (entry) => (entry.isDirectory ? undefined : await getEntryStatus(entry, root)))
+    );
+    const conflicts: IArchiveEntry[] = entries.filter((_entry, i) => statuses[i] === EntryStatus.OVERWRITE);
+    if (conflictPolicy === ConflictPolicy.ABORT && conflicts.length > 0) {
+        const listed: string = conflicts
+            .slice(0, MAX_LISTED_CONFLICTS)
+            .map((entry) => entry.path)
+            .join(", ");
+        const more: string = conflicts.length > MAX_LISTED_CONFLICTS ? ` and ${conflicts.length - MAX_LISTED_CONFLICTS} more` : "";
+        throw new UserError(`${conflicts.length} file(s) already exist in ${targetFolder}: ${listed}${more}.`);
+    }
+
+    for (const [i, entry] of entries.entries()) {
+        let filepath: string = filepaths[i];
+        if (entry.isDirectory) {
+            await fse.ensureDir(filepath);
+            continue;
+        } else if (statuses[i] === EntryStatus.IDENTICAL) {
+            continue;
+        } else if (statuses[i] === EntryStatus.OVERWRITE) {
+            if (conflictPolicy === ConflictPolicy.SKIP) {
+                continue;
+            } else if (conflictPolicy === ConflictPolicy.KEEP_BOTH) {
+                filepath = await getAvailablePath(filepath);
+            }
+        }
+        await fse.outputFile(filepath, entry.content);
+        const mode: number | undefined = EXECUTABLE_ENTRIES.includes(path.basename(entry.path))
+            ? (entry.mode ?? 0o644) | 0o755
+            : entry.mode;
+        if (mode !== undefined) {
+            await fse.chmod(filepath, mode);
+        }
+    }
+}
+
+/**
+ * Resolve the location of the entry, rejecting absolute paths and paths leading out of the target folder.
+ */
+function resolveEntryPath(root: string, entry: IArchiveEntry): string {
+    const filepath: string = path.resolve(root, entry.path);
+    const relative: string = path.relative(root, filepath);
+    if (path.isAbsolute(entry.path) || relative.split(path.sep)[0] === ".." || path.isAbsolute(relative)) {
+        throw new UserError(`Archive entry ${entry.path} is outside of the target folder.`);
+    }
+    return filepath;
+}
+
+/**
+ * Get a path next to the existing file for the generated one, e.g. pom.generated.xml.
+ */
+async function getAvailablePath(filepath: string): Promise<string> {
+    const { dir, name, ext } = path.parse(filepath);
+    let candidate: string = path.join(dir, `${name}.generated${ext}`);
+    for (let n: number = 2; await fse.pathExists(candidate); n++) {
+        candidate = path.join(dir, `${name}.generated-${n}${ext}`);
+    }
+    return candidate;
+}
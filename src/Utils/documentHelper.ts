@@ -0,0 +1,33 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license.
+
+import * as coc from "coc.nvim";
+
+/**
+ * src: \t\t<position>...
+ * returns "\t\t"
+ */
+export function getIndentation(document: coc.TextDocument, offset: number | null): string {
+    const pos: coc.Position = document.positionAt(offset as number);
+    const lineContentToPos = document.getText(coc.Range.create(coc.Position.create(pos.line, 0), pos));
+    const m = RegExp(/^\s+/).exec(lineContentToPos);
+    return m ? m[0] : "";
+}
+
+/**
+ * Get the range to delete for the text between start (inclusive) and end (exclusive) offsets. When the text is the
+ * only content of its lines, the range is extended to cover the whole lines, so no blank lines are left behind.
+ */
+export function getDeletionRange(document: coc.TextDocument, startOffset: number, endOffset: number): coc.Range {
+    let start: coc.Position = document.positionAt(startOffset);
+    let end: coc.Position = document.positionAt(endOffset);
+    const lineStart: coc.Position = coc.Position.create(start.line, 0);
+    const nextLineStart: coc.Position = coc.Position.create(end.line + 1, 0);
+    const contentBefore: string = document.getText(coc.Range.create(lineStart, start));
+    const contentAfter: string = document.getText(coc.Range.create(end, nextLineStart));
+    if (contentBefore.trim() === "" && contentAfter.trim() === "") {
+        start = lineStart;
+        end = end.line + 1 < document.lineCount ? nextLineStart : document.positionAt(document.getText().length);
+    }
+    return coc.Range.create(start, end);
+}
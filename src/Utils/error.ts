@@ -3,3 +3,12 @@
 
 export class UserError extends Error {
 }
+
+export class HttpError extends Error {
+    constructor(
+        message: string,
+        public readonly statusCode: number
+    ) {
+        super(message);
+    }
+}
@@ -0,0 +1,235 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license.
+
+import * as coc from "coc.nvim";
+import { platform } from "os";
+import * as path from "path";
+import {
+    getGradleBoms,
+    getGradleDependencies,
+    getGradleImportBlocks,
+    getGradleRepositories,
+    IGradleArtifact,
+    isKotlinDsl
+} from "../../model/gradle/BuildGradle";
+import { IRepositoryNode } from "../../model/Interfaces";
+import { getDeletionRange, getIndentation } from "../documentHelper";
+import { getBlocksByName, GradleBlockName, IGradleBlock } from "./lexer";
+
+interface IUpdateOptions {
+    removal?: { deps: IArtifact[]; boms: IArtifact[] };
+    // plugin repositories are declared in the settings file, only the project repositories are updated here
+    repositories?: IRepositoryNode[];
+}
+
+interface IArtifact {
+    groupId: string;
+    artifactId: string;
+    version?: string;
+    scope?: string;
+}
+
+interface IBom {
+    groupId: string;
+    artifactId: string;
+    version: string;
+}
+
+interface IInsertion {
+    offset: number;
+    text: string;
+}
+
+/**
+ * Maps maven scopes used by the initializr service to gradle configurations.
+ */
+const SCOPE_CONFIGURATIONS: { [scope: string]: string[] } = {
+    compile: ["implementation"],
+    runtime: ["runtimeOnly"],
+    test: ["testImplementation"],
+    provided: ["compileOnly"],
+    compileOnly: ["compileOnly"],
+    annotationProcessor: ["annotationProcessor"]
+};
+
+// annotation processors also needed on the compile classpath, as the service declares them
+const COMPILE_ONLY_PROCESSORS: string[] = ["org.projectlombok:lombok"];
+
+export async function updateBuildGradle(uri: coc.Uri, deps: IArtifact[], boms: IBom[], options?: IUpdateOptions) {
+    const baseDocument: coc.Document = await coc.workspace.openTextDocument(uri);
+    const document: coc.TextDocument = baseDocument.textDocument;
+    const content: string = document.getText();
+    const kotlin: boolean = isKotlinDsl(path.basename(uri.fsPath));
+    const formatOptions: coc.FormattingOptions = await coc.workspace.getFormatOptions(document.uri);
+    const indent: string = formatOptions.insertSpaces ? " ".repeat(formatOptions.tabSize) : "\t";
+    const eol: string = platform() !== "win32" ? "\n" : "\r\n";
+
+    const insertions: IInsertion[] = [];
+    const dependencyLines: string[] = deps.flatMap((dep) => toDependencyLines(dep, kotlin));
+    const dependenciesBlocks: IGradleBlock[] = getBlocksByName(content, GradleBlockName.Dependencies);
+    const lastDependencies: IGradleBlock | undefined = dependenciesBlocks[dependenciesBlocks.length - 1];
+    if (dependencyLines.length > 0) {
+        if (lastDependencies !== undefined) {
+            insertions.push(insertIntoBlock(document, lastDependencies, dependencyLines, indent, eol));
+        } else {
+            insertions.push(appendBlock(document, content.length, [GradleBlockName.Dependencies], dependencyLines, indent, eol));
+        }
+    }
+
+    if (boms && boms.length > 0) {
+        const bomLines: string[] = boms.map((bom) => toBomLine(bom, kotlin));
+        const importBlocks: IGradleBlock[] = getGradleImportBlocks(content);
+        const depMgmtBlocks: IGradleBlock[] = getBlocksByName(content, GradleBlockName.DependencyManagement);
+        if (importBlocks.length > 0) {
+            insertions.push(insertIntoBlock(document, importBlocks[0], bomLines, indent, eol));
+        } else if (depMgmtBlocks.length > 0) {
+            const block: IGradleBlock = depMgmtBlocks[0];
+            const lines: string[] = wrapWithBlock(bomLines, indent, GradleBlockName.Imports);
+            insertions.push(insertIntoBlock(document, block, lines, indent, eol));
+        } else {
+            const offset: number = lastDependencies !== undefined ? lastDependencies.endIndex + 1 : content.length;
+            const parents: string[] = [GradleBlockName.Imports, GradleBlockName.DependencyManagement];
+            insertions.push(appendBlock(document, offset, parents, bomLines, indent, eol));
+        }
+    }
+
+    if (options?.repositories && options.repositories.length > 0) {
+        const normalizeUrl = (url: string) => url.replace(/\/+$/, "");
+        const declaredUrls: string[] = getGradleRepositories(content).map(normalizeUrl);
+        const repositoryLines: string[] = options.repositories
+            .filter((repo) => !declaredUrls.includes(normalizeUrl(repo.url[0])))
+            .map((repo) => toRepositoryLine(repo, kotlin));
+        const repositoriesBlocks: IGradleBlock[] = getBlocksByName(content, GradleBlockName.Repositories);
+        if (repositoryLines.length > 0 && repositoriesBlocks.length > 0) {
+            insertions.push(insertIntoBlock(document, repositoriesBlocks[repositoriesBlocks.length - 1], repositoryLines, indent, eol));
+        } else if (repositoryLines.length > 0) {
+            insertions.push(appendBlock(document, content.length, [GradleBlockName.Repositories], repositoryLines, indent, eol));
+        }
+    }
+
+    const textEdits: coc.TextEdit[] = mergeInsertions(insertions).map((insertion) =>
+        coc.TextEdit.insert(document.positionAt(insertion.offset), insertion.text)
+    );
+    const removal = options?.removal;
+    if (removal) {
+        const matches = (declared: IGradleArtifact, artifacts: IArtifact[]) =>
+            artifacts.some((a) => a.groupId === declared.groupId && a.artifactId === declared.artifactId);
+        const declarationsToRemove: IGradleArtifact[] = [
+            ...getGradleDependencies(content).filter((dep) => matches(dep, removal.deps)),
+            ...getGradleBoms(content).filter((bom) => matches(bom, removal.boms))
+        ];
+        // lines are removed only when the declarations are their only content
+        textEdits.push(
+            ...declarationsToRemove.map((declared) =>
+                coc.TextEdit.del(
+                    getDeletionRange(
+                        document,
+                        getStatementStart(content, declared.startIndex as number),
+                        getStatementEnd(content, declared.endIndex as number)
+                    )
+                )
+            )
+        );
+    }
+
+    const edit: coc.WorkspaceEdit = { changes: {} };
+    edit.changes ??= {};
+    edit.changes[document.uri] = textEdits;
+    await coc.workspace.applyEdit(edit);
+}
+
+/**
+ * Get the start of the statement of a declaration, i.e. including the calls it is nested in, e.g. with
+ * implementation(platform("...")).
+ */
+function getStatementStart(content: string, declarationStart: number): number {
+    const lineStart: number = content.lastIndexOf("\n", declarationStart - 1) + 1;
+    const calls = RegExp(/(?:[A-Za-z_]\w*[ \t]*\([ \t]*)*$/).exec(content.substring(lineStart, declarationStart));
+    return declarationStart - (calls ? calls[0].length : 0);
+}
+
+/**
+ * Get the end of the statement of a declaration, which only covers the notation of the artifact, i.e. including the
+ * remaining named arguments, the closing parenthesis of kotlin calls and the semicolon.
+ */
+function getStatementEnd(content: string, declarationEnd: number): number {
+    const rest = RegExp(/^(?:\s*,\s*\w+\s*[:=]\s*["'][^"'\n]*["'])*[ \t]*\)*[ \t]*;?/).exec(content.substring(declarationEnd));
+    return declarationEnd + (rest ? rest[0].length : 0);
+}
+
+function toDependencyLines(artifact: IArtifact, kotlin: boolean): string[] {
+    const { groupId, artifactId, version, scope } = artifact;
+    const notation: string = [groupId, artifactId, version].filter(Boolean).join(":");
+    let configurations: string[] = SCOPE_CONFIGURATIONS[scope || "compile"] || SCOPE_CONFIGURATIONS.compile;
+    if (scope === "annotationProcessor" && COMPILE_ONLY_PROCESSORS.includes(`${groupId}:${artifactId}`)) {
+        configurations = ["compileOnly", ...configurations];
+    }
+    return configurations.map((configuration) => (kotlin ? `${configuration}("${notation}")` : `${configuration} '${notation}'`));
+}
+
+function toBomLine(bom: IBom, kotlin: boolean): string {
+    const { groupId, artifactId, version } = bom;
+    const notation: string = `${groupId}:${artifactId}:${version}`;
+    return kotlin ? `mavenBom("${notation}")` : `mavenBom "${notation}"`;
+}
+
+function toRepositoryLine(repo: IRepositoryNode, kotlin: boolean): string {
+    return kotlin ? `maven { url = uri("${repo.url[0]}") }` : `maven { url '${repo.url[0]}' }`;
+}
+
+function wrapWithBlock(lines: string[], indent: string, name: string): string[] {
+    return [`${name} {`, ...lines.map((line) => `${indent}${line}`), "}"];
+}
+
+function insertIntoBlock(document: coc.TextDocument, block: IGradleBlock, lines: string[], indent: string, eol: string): IInsertion {
+    const baseIndent: string = getIndentation(document, block.startIndex);
+    let offset: number = block.endIndex;
+    // Not to mess up indentation, move cursor to line start:
+    // <tab>|}  =>  |<tab>}
+    const closePos: coc.Position = document.positionAt(offset);
+    const contentBefore: string = document.getText(coc.Range.create(coc.Position.create(closePos.line, 0), closePos));
+    let text: string = lines.map((line) => `${baseIndent}${indent}${line}${eol}`).join("");
+    if (contentBefore.trim() === "") {
+        offset -= closePos.character;
+    } else {
+        text = `${eol}${text}${baseIndent}`;
+    }
+    return { offset, text };
+}
+
+function appendBlock(
+    document: coc.TextDocument,
+    offset: number,
+    parents: string[],
+    lines: string[],
+    indent: string,
+    eol: string
+): IInsertion {
+    let blockLines: string[] = lines;
+    for (const parent of parents) {
+        blockLines = wrapWithBlock(blockLines, indent, parent);
+    }
+    const content: string = document.getText();
+    const prefix: string = offset === content.length && content.length > 0 && !content.endsWith("\n") ? eol : "";
+    const text: string = blockLines.join(eol);
+    if (offset === content.length) {
+        return { offset, text: `${prefix}${eol}${text}${eol}` };
+    }
+    return { offset, text: `${eol}${eol}${text}` };
+}
+
+/**
+ * Multiple insertions at the same offset are concatenated, to keep their order deterministic.
+ */
+function mergeInsertions(insertions: IInsertion[]): IInsertion[] {
+    const ret: IInsertion[] = [];
+    for (const insertion of insertions) {
+        const existing: IInsertion | undefined = ret.find((elem) => elem.offset === insertion.offset);
+        if (existing) {
+            existing.text += insertion.text;
+        } else {
+            ret.push({ ...insertion });
+        }
+    }
+    return ret;
+}
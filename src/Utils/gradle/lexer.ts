@@ -0,0 +1,96 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license.
+
+export enum GradleBlockName {
+    Plugins = "plugins",
+    Dependencies = "dependencies",
+    DependencyManagement = "dependencyManagement",
+    Imports = "imports",
+    Repositories = "repositories"
+}
+
+export interface IGradleBlock {
+    name: string;
+    // offset of the first character of the block name
+    startIndex: number;
+    // offset of the opening "{"
+    openIndex: number;
+    // offset of the matching closing "}"
+    endIndex: number;
+}
+
+/**
+ * Find blocks like `name { ... }` in a Groovy or Kotlin DSL build script. Only blocks which are direct children of
+ * the parent block (or top level when no parent is specified) are returned, strings and comments are skipped.
+ */
+export function getBlocksByName(text: string, name: string, parent?: IGradleBlock): IGradleBlock[] {
+    const start: number = parent ? parent.openIndex + 1 : 0;
+    const end: number = parent ? parent.endIndex : text.length;
+    const ret: IGradleBlock[] = [];
+
+    let depth: number = 0;
+    let segmentStart: number = start;
+    let current: IGradleBlock | undefined;
+    for (let i: number = start; i < end; i++) {
+        const skipTo: number = skipNonCode(text, i);
+        if (skipTo !== i) {
+            i = skipTo - 1;
+            continue;
+        }
+        const ch: string = text[i];
+        if (ch === "{") {
+            if (depth === 0) {
+                const m = RegExp(/([A-Za-z_][\w]*)\s*$/).exec(text.substring(segmentStart, i));
+                if (m && m[1] === name) {
+                    current = { name, startIndex: i - m[0].length, openIndex: i, endIndex: -1 };
+                }
+            }
+            depth++;
+        } else if (ch === "}") {
+            depth--;
+            if (depth === 0) {
+                if (current) {
+                    current.endIndex = i;
+                    ret.push(current);
+                    current = undefined;
+                }
+                segmentStart = i + 1;
+            }
+        } else if (depth === 0 && (ch === "\n" || ch === ";" || ch === ")")) {
+            segmentStart = i + 1;
+        }
+    }
+    return ret;
+}
+
+/**
+ * Returns the text between the braces of the block, without the braces themselves.
+ */
+export function getBlockContent(text: string, block: IGradleBlock): string {
+    return text.substring(block.openIndex + 1, block.endIndex);
+}
+
+/**
+ * Returns the offset right after the string literal or comment starting at offset, or the offset itself when there
+ * is none starting there.
+ */
+function skipNonCode(text: string, offset: number): number {
+    if (text.startsWith("//", offset)) {
+        const eol: number = text.indexOf("\n", offset);
+        return eol === -1 ? text.length : eol;
+    }
+    if (text.startsWith("/*", offset)) {
+        const close: number = text.indexOf("*/", offset + 2);
+        return close === -1 ? text.length : close + 2;
+    }
+    for (const quote of ['"""', "'''", '"', "'"]) {
+        if (text.startsWith(quote, offset)) {
+            let i: number = offset + quote.length;
+            while (i < text.length && !text.startsWith(quote, i)) {
+                i += text[i] === "\\" ? 2 : 1;
+            }
+            return Math.min(i + quote.length, text.length);
+        }
+    }
+    return offset;
+}
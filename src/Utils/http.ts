@@ -0,0 +1,178 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license.
+
+import * as coc from "coc.nvim";
+import * as http from "http";
+import * as https from "https";
+import * as net from "net";
+import * as tls from "tls";
+import { HttpError } from "./error";
+
+const MAX_REDIRECTS: number = 5;
+const MAX_SNIPPET_LENGTH: number = 200;
+const TRANSIENT_ERROR_CODES: string[] = ["ECONNRESET", "ECONNREFUSED", "ETIMEDOUT", "EAI_AGAIN", "EPIPE"];
+
+/**
+ * Send a GET request, through the proxy configured by `http.proxy` or the environment, following redirects. Responses
+ * with a status other than 2xx are rejected with an HttpError.
+ * @param timeout time in milliseconds the connection may stay idle.
+ */
+export async function httpGet(targetUrl: string, headers: http.OutgoingHttpHeaders, timeout: number): Promise<http.IncomingMessage> {
+    let currentUrl: URL = new URL(targetUrl);
+    for (let redirects: number = 0; ; redirects++) {
+        const res: http.IncomingMessage = await sendRequest(currentUrl, headers, timeout);
+        const statusCode: number = res.statusCode ?? 0;
+        if (statusCode >= 300 && statusCode < 400 && res.headers.location) {
+            res.resume();
+            if (redirects >= MAX_REDIRECTS) {
+                throw new HttpError(`Too many redirects when requesting ${targetUrl}.`, statusCode);
+            }
+            currentUrl = new URL(res.headers.location, currentUrl);
+        } else if (statusCode < 200 || statusCode >= 300) {
+            const body: string = await readBody(res);
+            const snippet: string = body.replace(/\s+/g, " ").trim().substring(0, MAX_SNIPPET_LENGTH);
+            throw new HttpError(
+                `Request to ${currentUrl} failed with status ${statusCode} ${res.statusMessage ?? ""}${snippet ? `: ${snippet}` : ""}`,
+                statusCode
+            );
+        } else {
+            return res;
+        }
+    }
+}
+
+/**
+ * Errors worth retrying: server errors, throttling, and connections reset or timed out.
+ */
+export function isTransientError(err: any): boolean {
+    if (err instanceof HttpError) {
+        return err.statusCode >= 500 || err.statusCode === 429;
+    }
+    return TRANSIENT_ERROR_CODES.includes(err?.code);
+}
+
+export async function readBody(res: http.IncomingMessage): Promise<string> {
+    return new Promise<string>((resolve: (value: string) => void, reject: (e: Error) => void): void => {
+        let rawData: string = "";
+        res.setEncoding("utf8");
+        res.on("data", (chunk: string) => (rawData += chunk));
+        res.on("end", () => resolve(rawData));
+        res.on("error", reject);
+    });
+}
+
+async function sendRequest(target: URL, headers: http.OutgoingHttpHeaders, timeout: number): Promise<http.IncomingMessage> {
+    if (target.protocol !== "https:" && target.protocol !== "http:") {
+        throw new Error("Unsupported protocol.");
+    }
+    const proxy: URL | undefined = getProxyUrl(target);
+    const options: https.RequestOptions = {
+        hostname: target.hostname,
+        port: target.port || undefined,
+        path: `${target.pathname}${target.search}`,
+        headers
+    };
+
+    if (proxy !== undefined && target.protocol === "https:") {
+        // certificates are only left unchecked through the proxy, e.g. one intercepting tls, direct connections keep the checks
+        const strictSSL: boolean = coc.workspace.getConfiguration("http").get<boolean>("proxyStrictSSL", true);
+        const socket: net.Socket = await connectTunnel(proxy, target, timeout);
+        options.createConnection = () => tls.connect({ socket, servername: target.hostname, rejectUnauthorized: strictSSL });
+    } else if (proxy !== undefined) {
+        // plain http is forwarded by the proxy, requested by the absolute url
+        options.hostname = proxy.hostname;
+        options.port = proxy.port || 80;
+        options.path = target.toString();
+        options.headers = { ...headers, Host: target.host, ...getProxyAuthorization(proxy) };
+    }
+
+    return new Promise<http.IncomingMessage>((resolve: (value: http.IncomingMessage) => void, reject: (e: Error) => void): void => {
+        const req: http.ClientRequest = (target.protocol === "https:" ? https : http).request(options, resolve);
+        req.setTimeout(timeout, () => req.destroy(createTimeoutError(target, timeout)));
+        req.on("error", reject);
+        req.end();
+    });
+}
+
+/**
+ * Open a connection to the target through the proxy with the CONNECT method, for TLS to be established over it.
+ */
+async function connectTunnel(proxy: URL, target: URL, timeout: number): Promise<net.Socket> {
+    const authority: string = `${target.hostname}:${target.port || 443}`;
+    return new Promise<net.Socket>((resolve: (value: net.Socket) => void, reject: (e: Error) => void): void => {
+        const req: http.ClientRequest = http.request({
+            hostname: proxy.hostname,
+            port: proxy.port || 80,
+            method: "CONNECT",
+            path: authority,
+            headers: { Host: authority, ...getProxyAuthorization(proxy) }
+        });
+        req.setTimeout(timeout, () => req.destroy(createTimeoutError(proxy, timeout)));
+        req.on("connect", (res: http.IncomingMessage, socket: net.Socket) => {
+            req.setTimeout(0);
+            if (res.statusCode === 200) {
+                resolve(socket);
+            } else {
+                socket.destroy();
+                reject(
+                    new HttpError(
+                        `Proxy ${proxy.host} refused to connect to ${authority} with status ${res.statusCode}.`,
+                        res.statusCode ?? 0
+                    )
+                );
+            }
+        });
+        req.on("error", reject);
+        req.end();
+    });
+}
+
+/**
+ * The proxy is taken from the `http.proxy` setting, then from the HTTPS_PROXY or HTTP_PROXY environment variables.
+ * Hosts matching NO_PROXY are connected directly.
+ */
+function getProxyUrl(target: URL): URL | undefined {
+    if (isExcludedFromProxy(target.hostname)) {
+        return undefined;
+    }
+    const env = process.env;
+    const envProxy: string | undefined =
+        target.protocol === "https:"
+            ? (env.HTTPS_PROXY ?? env.https_proxy ?? env.HTTP_PROXY ?? env.http_proxy)
+            : (env.HTTP_PROXY ?? env.http_proxy);
+    const proxy: string | undefined = coc.workspace.getConfiguration("http").get<string>("proxy") || envProxy;
+    if (!proxy) {
+        return undefined;
+    }
+    return new URL(proxy.includes("://") ? proxy : `http://${proxy}`);
+}
+
+function isExcludedFromProxy(hostname: string): boolean {
+    const noProxy: string = process.env.NO_PROXY ?? process.env.no_proxy ?? "";
+    const host: string = hostname.toLowerCase();
+    return noProxy
+        .split(/[\s,]+/)
+        .map((entry) => entry.toLowerCase().replace(/:\d+$/, ""))
+        .filter((entry) => entry !== "")
+        .some((entry) => {
+            if (entry === "*") {
+                return true;
+            }
+            const domain: string = entry.replace(/^\*?\./, "");
+            return host === domain || host.endsWith(`.${domain}`);
+        });
+}
+
+function getProxyAuthorization(proxy: URL): http.OutgoingHttpHeaders {
+    if (!proxy.username) {
+        return {};
+    }
+    const credentials: string = `${decodeURIComponent(proxy.username)}:${decodeURIComponent(proxy.password)}`;
+    return { "Proxy-Authorization": `Basic ${Buffer.from(credentials).toString("base64")}` };
+}
+
+function createTimeoutError(target: URL, timeout: number): Error {
+    const err: NodeJS.ErrnoException = new Error(`Connection to ${target.host} timed out after ${timeout / 1000} seconds.`);
+    err.code = "ETIMEDOUT";
+    return err;
+}
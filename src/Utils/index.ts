@@ -3,14 +3,19 @@
 
 import * as fse from "fs-extra";
 import * as http from "http";
-import * as https from "https";
 import * as _ from "lodash";
 import md5 from "md5";
 import * as os from "os";
 import * as path from "path";
-import * as url from "url";
+import { pipeline } from "stream/promises";
 import * as coc from "coc.nvim";
 import * as xml2js from "xml2js";
+import { httpGet, isTransientError, readBody } from "./http";
+
+const DEFAULT_DOWNLOAD_TIMEOUT: number = 30;
+const DEFAULT_DOWNLOAD_RETRIES: number = 2;
+// doubled on each retry
+const RETRY_BASE_DELAY: number = 500;
 
 let EXTENSION_PUBLISHER: string;
 let EXTENSION_NAME: string;
@@ -45,49 +50,25 @@ export async function downloadFile(targetUrl: string, readContent?: boolean, cus
         await fse.remove(tempFilePath);
     }
 
-    return await new Promise((resolve: (res: string) => void, reject: (e: Error) => void): void => {
-        const urlObj: url.Url = url.parse(targetUrl);
-        const options = { headers: { ...customHeaders, "User-Agent": `vscode/${getVersion()}` }, ...urlObj };
-        let client: any;
-        if (urlObj.protocol === "https:") {
-            client = https;
-            // tslint:disable-next-line:no-http-string
-        } else if (urlObj.protocol === "http:") {
-            client = http;
-        } else {
-            return reject(new Error("Unsupported protocol."));
+    const config: coc.WorkspaceConfiguration = coc.workspace.getConfiguration("spring.initializr");
+    const timeout: number = config.get<number>("downloadTimeout", DEFAULT_DOWNLOAD_TIMEOUT) * 1000;
+    const retries: number = config.get<number>("downloadRetries", DEFAULT_DOWNLOAD_RETRIES);
+    const headers: {} = { ...customHeaders, "User-Agent": `vscode/${getVersion()}` };
+    for (let attempt: number = 0; ; attempt++) {
+        try {
+            const res: http.IncomingMessage = await httpGet(targetUrl, headers, timeout);
+            if (readContent) {
+                return await readBody(res);
+            }
+            await pipeline(res, fse.createWriteStream(tempFilePath));
+            return tempFilePath;
+        } catch (error) {
+            if (attempt >= retries || !isTransientError(error)) {
+                throw error;
+            }
+            await new Promise((resolve) => setTimeout(resolve, RETRY_BASE_DELAY * 2 ** attempt));
         }
-        client
-            .get(options, (res: http.IncomingMessage) => {
-                let rawData: string;
-                let ws: fse.WriteStream;
-                if (readContent) {
-                    rawData = "";
-                } else {
-                    ws = fse.createWriteStream(tempFilePath);
-                }
-                res.on("data", (chunk: string | Buffer) => {
-                    if (readContent) {
-                        rawData += chunk;
-                    } else {
-                        ws.write(chunk);
-                    }
-                });
-                res.on("end", () => {
-                    if (readContent) {
-                        resolve(rawData);
-                    } else {
-                        ws.end();
-                        ws.on("close", () => {
-                            resolve(tempFilePath);
-                        });
-                    }
-                });
-            })
-            .on("error", (err: Error) => {
-                reject(err);
-            });
-    });
+    }
 }
 
 export async function writeFileToExtensionRoot(relateivePath: string, data: string | Buffer): Promise<void> {
@@ -128,6 +109,13 @@ export function packageNameValidation(value: string): string | null {
     return /^[a-z_][a-z0-9_]*(\.[a-z0-9_]+)*$/.test(value) ? null : "Invalid Package Name";
 }
 
+/**
+ * Get the package name derived from the group id and artifact id, like the service does.
+ */
+export function getDefaultPackageName(groupId: string | undefined, artifactId: string | undefined): string {
+    return `${groupId}.${artifactId}`.replace(/-/g, "_");
+}
+
 export async function readXmlContent(xml: string | undefined, options?: {}): Promise<any> {
     const opts: {} = { explicitArray: true, ...options };
     return new Promise<{}>((resolve: (value: {}) => void, reject: (e: Error) => void): void => {
@@ -147,14 +135,28 @@ export function buildXmlContent(obj: any, options?: {}): string {
 }
 
 export async function getTargetPomXml(): Promise<coc.Uri | undefined> {
+    return await getTargetFile(["pom.xml"]);
+}
+
+export async function getTargetBuildFile(): Promise<coc.Uri | undefined> {
+    return await getTargetFile(["pom.xml", "build.gradle", "build.gradle.kts"]);
+}
+
+/**
+ * Get the active file if it has one of the names, otherwise search the workspace and let the user pick one of the
+ * files found.
+ */
+export async function getTargetFile(fileNames: string[]): Promise<coc.Uri | undefined> {
     if (coc.window.activeTextEditor) {
         const activeUri = coc.window.activeTextEditor.document.uri;
-        if ("pom.xml" === path.basename(activeUri).toLowerCase()) {
+        if (fileNames.includes(path.basename(activeUri).toLowerCase())) {
             return coc.Uri.parse(activeUri);
         }
     }
 
-    const candidates: coc.Uri[] = await coc.workspace.findFiles("**/pom.xml");
+    // braces with a single pattern are not expanded
+    const pattern: string = fileNames.length > 1 ? `{${fileNames.join(",")}}` : fileNames[0];
+    const candidates: coc.Uri[] = await coc.workspace.findFiles(`**/${pattern}`);
     if (!_.isEmpty(candidates)) {
         if (candidates.length === 1) {
             return candidates[0];
@@ -166,7 +168,7 @@ export async function getTargetPomXml(): Promise<coc.Uri | undefined> {
                         label: getRelativePathToWorkspaceFolder(c),
                         description: getWorkspaceFolderName(c)
                     })),
-                    { placeHolder: "Select the target project." }
+                    { placeholder: "Select the target project." }
                 )
                 .then((res: any) => res?.value);
         }
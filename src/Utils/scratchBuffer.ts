@@ -0,0 +1,38 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license.
+
+import * as coc from "coc.nvim";
+
+/**
+ * Show the lines in a read-only scratch buffer while the callback runs, e.g. while asking for confirmation. The
+ * buffer is wiped afterwards.
+ */
+export async function withScratchBuffer<T>(title: string, lines: string[], callback: () => Promise<T>): Promise<T> {
+    const { nvim } = coc.workspace;
+    await nvim.command("botright new");
+    const buffer = await nvim.buffer;
+    await buffer.setOption("buftype", "nofile");
+    await buffer.setOption("bufhidden", "wipe");
+    await buffer.setOption("swapfile", false);
+    await buffer.setLines(lines, { start: 0, end: -1, strictIndexing: false });
+    await buffer.setOption("modifiable", false);
+    await nvim.command(`silent! file [${title} ${buffer.id}]`);
+
+    try {
+        return await callback();
+    } finally {
+        await nvim.command(`silent! bwipeout! ${buffer.id}`);
+    }
+}
+
+/**
+ * Open the content in a new buffer which is not associated with any file yet, so it can be saved wherever needed.
+ * @param openCommand ex command creating the window of the buffer, e.g. "vnew".
+ */
+export async function openUnsavedBuffer(content: string, filetype: string, openCommand: string = "new"): Promise<void> {
+    const { nvim } = coc.workspace;
+    await nvim.command(openCommand);
+    const buffer = await nvim.buffer;
+    await buffer.setLines(content.replace(/\r?\n$/, "").split(/\r?\n/), { start: 0, end: -1, strictIndexing: false });
+    await buffer.setOption("filetype", filetype);
+}
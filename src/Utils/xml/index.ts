@@ -3,40 +3,151 @@
 
 import { Element, isTag, Node } from "domhandler";
 import * as coc from "coc.nvim";
+import { getDeletionRange, getIndentation } from "../documentHelper";
+import { IRepositoryNode } from "../../model/Interfaces";
 import { UserError } from "../error";
-import { getNodesByTag, XmlTagName } from "./lexer";
+import { getChildElements, getChildText, getNodesByTag, getText, XmlTagName } from "./lexer";
 import { platform } from "os";
 
-export async function updatePom(uri: coc.Uri, deps: IArtifact[], boms: IBom[]) {
+export async function updatePom(uri: coc.Uri, deps: IArtifact[], boms: IBom[], options?: IUpdateOptions) {
     const edit: coc.WorkspaceEdit = { changes: {} };
     const projectNode: Element = await getActiveProjectNode(uri);
-    const dependenciesNode: Element | undefined =
-        projectNode.children && (projectNode.children.find((node) => isTag(node) && node.tagName === XmlTagName.Dependencies) as Element);
-    if (dependenciesNode !== undefined) {
-        await updateWorkspaceEdit(edit, uri, dependenciesNode, new DependencyNodes(deps));
-    } else {
-        await updateWorkspaceEdit(edit, uri, projectNode, new DependencyNodes(deps, { initParent: true }));
+    if (options?.removal) {
+        await removeFromWorkspaceEdit(edit, uri, options.removal.deps, options.removal.boms);
     }
-
-    if (boms && boms.length > 0) {
-        const depMgmtNode: Element | undefined =
+    if (deps && deps.length > 0) {
+        const dependenciesNode: Element | undefined =
             projectNode.children &&
-            (projectNode.children.find((node) => isTag(node) && node.tagName === XmlTagName.DependencyManagement) as Element);
-        if (depMgmtNode !== undefined) {
-            const depsNodes: Element | undefined =
-                depMgmtNode.children &&
-                (depMgmtNode.children.find((node) => isTag(node) && node.tagName === XmlTagName.Dependencies) as Element);
-            if (depsNodes !== undefined) {
-                await updateWorkspaceEdit(edit, uri, depsNodes, new BOMNodes(boms));
-            } else {
-                await updateWorkspaceEdit(edit, uri, depMgmtNode, new BOMNodes(boms, { parents: ["dependencies"] }));
-            }
+            (projectNode.children.find((node) => isTag(node) && node.tagName === XmlTagName.Dependencies) as Element);
+        if (dependenciesNode !== undefined) {
+            await updateWorkspaceEdit(edit, uri, dependenciesNode, new DependencyNodes(deps));
         } else {
-            await updateWorkspaceEdit(edit, uri, projectNode, new BOMNodes(boms, { parents: ["dependencies", "dependencyManagement"] }));
+            await updateWorkspaceEdit(edit, uri, projectNode, new DependencyNodes(deps, { initParent: true }));
+        }
+    }
+
+    if (boms && boms.length > 0) {
+        const { parentNode, nodeToInsert } = getBomInsertion(projectNode, boms);
+        await updateWorkspaceEdit(edit, uri, parentNode, nodeToInsert);
+    }
+
+    if (options?.repositories && options.repositories.length > 0) {
+        await addRepositories(edit, uri, projectNode, XmlTagName.Repositories, XmlTagName.Repository, options.repositories);
+        if (options.pluginRepositories) {
+            const { PluginRepositories, PluginRepository } = XmlTagName;
+            await addRepositories(edit, uri, projectNode, PluginRepositories, PluginRepository, options.repositories);
+        }
+    }
+
+    await coc.workspace.applyEdit(edit);
+}
+
+/**
+ * Replace the version of the spring-boot-starter-parent in place. When the version refers to a property, e.g.
+ * `${spring-boot.version}`, the property declared in the same pom is updated instead.
+ */
+export async function updateBootVersion(uri: coc.Uri, version: string) {
+    const projectNode: Element = await getActiveProjectNode(uri);
+    const parentNode: Element | undefined = getChildElements(projectNode, XmlTagName.Parent)[0];
+    let versionNode: Element | undefined = parentNode && getChildElements(parentNode, XmlTagName.Version)[0];
+    const ref = RegExp(/^\$\{(.+)\}$/).exec((parentNode && getChildText(parentNode, XmlTagName.Version)) ?? "");
+    if (ref) {
+        const propertiesNode: Element | undefined = getChildElements(projectNode, XmlTagName.Properties)[0];
+        versionNode = propertiesNode && getChildElements(propertiesNode, ref[1])[0];
+    }
+    if (versionNode === undefined) {
+        throw new UserError("Unable to locate the version of spring-boot-starter-parent.");
+    }
+
+    const baseDocument: coc.Document = await coc.workspace.openTextDocument(uri);
+    const currentDocument: coc.TextDocument = baseDocument.textDocument;
+    // content between <version> and </version>, the end index of the element points to the last ">"
+    const startOffset: number = (versionNode.startIndex as number) + versionNode.name.length + 2;
+    const endOffset: number = (versionNode.endIndex as number) - (versionNode.name.length + 3) + 1;
+    const range: coc.Range = coc.Range.create(currentDocument.positionAt(startOffset), currentDocument.positionAt(endOffset));
+    const edit: coc.WorkspaceEdit = { changes: { [currentDocument.uri]: [coc.TextEdit.replace(range, version)] } };
+    await coc.workspace.applyEdit(edit);
+}
+
+/**
+ * Add the module to the <modules> section of the pom, unless it is already listed there.
+ */
+export async function addModule(uri: coc.Uri, module: string) {
+    const edit: coc.WorkspaceEdit = { changes: {} };
+    const projectNode: Element = await getActiveProjectNode(uri);
+    const modulesNode: Element | undefined = getChildElements(projectNode, XmlTagName.Modules)[0];
+    if (modulesNode !== undefined) {
+        if (getChildElements(modulesNode, XmlTagName.Module).some((node) => getText(node) === module)) {
+            return;
         }
+        await updateWorkspaceEdit(edit, uri, modulesNode, new ModuleNodes([module]));
+    } else {
+        await updateWorkspaceEdit(edit, uri, projectNode, new ModuleNodes([module], { initParent: true }));
+    }
+    await coc.workspace.applyEdit(edit);
+}
+
+async function addRepositories(
+    edit: coc.WorkspaceEdit,
+    uri: coc.Uri,
+    projectNode: Element,
+    parentTag: string,
+    tag: string,
+    repositories: IRepositoryNode[]
+): Promise<void> {
+    const insertion = getRepositoryInsertion(projectNode, parentTag, tag, repositories);
+    if (insertion !== undefined) {
+        await updateWorkspaceEdit(edit, uri, insertion.parentNode, insertion.nodeToInsert);
     }
+}
 
-    coc.workspace.applyEdit(edit);
+/**
+ * Get the node to insert the repositories into, skipping the ones declared already with the same id or url.
+ * @returns undefined when all repositories are declared.
+ */
+function getRepositoryInsertion(
+    projectNode: Element,
+    parentTag: string,
+    tag: string,
+    repositories: IRepositoryNode[]
+): { parentNode: Element; nodeToInsert: PomNode } | undefined {
+    const parentNode: Element | undefined = getChildElements(projectNode, parentTag)[0];
+    const existingNodes: Element[] = parentNode ? getChildElements(parentNode, tag) : [];
+    const normalizeUrl = (url: string | undefined) => url?.replace(/\/+$/, "");
+    const missing: IRepositoryNode[] = repositories.filter(
+        (repo) =>
+            !existingNodes.some(
+                (node) =>
+                    getChildText(node, XmlTagName.Id) === repo.id[0] ||
+                    normalizeUrl(getChildText(node, XmlTagName.Url)) === normalizeUrl(repo.url[0])
+            )
+    );
+    if (missing.length === 0) {
+        return undefined;
+    }
+    if (parentNode !== undefined) {
+        return { parentNode, nodeToInsert: new RepositoryNodes(missing, tag) };
+    } else {
+        return { parentNode: projectNode, nodeToInsert: new RepositoryNodes(missing, tag, { parent: parentTag }) };
+    }
+}
+
+/**
+ * Get the edits declaring the repositories in <repositories>, skipping repositories the pom declares already. Like
+ * getBomImportEdits, the edits are returned instead of applied.
+ */
+export function getRepositoryEdits(
+    document: coc.TextDocument,
+    repositories: IRepositoryNode[],
+    indent: string,
+    eol: string
+): coc.TextEdit[] {
+    const projectNode: Element | undefined = getNodesByTag(document.getText(), XmlTagName.Project)[0] as Element | undefined;
+    const insertion = projectNode && getRepositoryInsertion(projectNode, XmlTagName.Repositories, XmlTagName.Repository, repositories);
+    if (insertion === undefined) {
+        return [];
+    }
+    return [getInsertionEdit(document, insertion.parentNode, insertion.nodeToInsert, indent, eol)];
 }
 
 async function getActiveProjectNode(uri: coc.Uri): Promise<Element> {
@@ -63,41 +174,141 @@ async function updateWorkspaceEdit(
 ): Promise<coc.WorkspaceEdit> {
     const baseDocument: coc.Document = await coc.workspace.openTextDocument(uri);
     const currentDocument: coc.TextDocument = baseDocument.textDocument;
-    const baseIndent: string = getIndentation(currentDocument, parentNode.startIndex);
+    await focusCurrentResource(currentDocument.uri);
+    const textEditor: coc.TextEditor = coc.window.activeTextEditor as coc.TextEditor;
+    const options: coc.TextEditorOptions = textEditor.options;
+    const indent: string = options.insertSpaces ? " ".repeat(options.tabSize) : "\t";
+    const eol: string = platform() !== "win32" ? "\n" : "\r\n";
+    const textEdit: coc.TextEdit = getInsertionEdit(currentDocument, parentNode, nodeToInsert, indent, eol);
+
+    edit.changes ??= {};
+    edit.changes[currentDocument.uri] = [...(edit.changes[currentDocument.uri] ?? []), textEdit];
+    return edit;
+}
+
+function getInsertionEdit(
+    document: coc.TextDocument,
+    parentNode: Element,
+    nodeToInsert: PomNode,
+    indent: string,
+    eol: string
+): coc.TextEdit {
+    const baseIndent: string = getIndentation(document, parentNode.startIndex);
 
     let insertOffset = (parentNode.endIndex as number) - (parentNode.name.length + 3) /* "</parentNode>".length */ + 1;
-    let insertPos: coc.Position = currentDocument.positionAt(insertOffset);
+    let insertPos: coc.Position = document.positionAt(insertOffset);
     // Not to mess up indentation, move cursor to line start:
     // <tab><tab>|</dependencies>  =>  |<tab><whitespace></dependencies>
     const insPosLineStart: coc.Position = coc.Position.create(insertPos.line, 0);
-    const contentBefore: string = currentDocument.getText(coc.Range.create(insPosLineStart, insertPos));
+    const contentBefore: string = document.getText(coc.Range.create(insPosLineStart, insertPos));
     if (contentBefore.trim() === "") {
         insertOffset -= insertPos.character;
         insertPos = insPosLineStart;
     }
 
-    await focusCurrentResource(currentDocument.uri);
-    const textEditor: coc.TextEditor = coc.window.activeTextEditor as coc.TextEditor;
-    const options: coc.TextEditorOptions = textEditor.options;
-    const indent: string = options.insertSpaces ? " ".repeat(options.tabSize) : "\t";
-    const eol: string = platform() !== "win32" ? "\n" : "\r\n";
     const targetText: string = constructNodeText(nodeToInsert, baseIndent, indent, eol);
-    const textEdit: coc.TextEdit = coc.TextEdit.insert(insertPos, targetText);
+    return coc.TextEdit.insert(insertPos, targetText);
+}
+
+/**
+ * Get the edits importing the boms into <dependencyManagement>, skipping boms the pom imports already. Unlike
+ * updatePom, the edits are returned instead of applied, e.g. to be applied together with a completion item.
+ */
+export function getBomImportEdits(document: coc.TextDocument, boms: IBom[], indent: string, eol: string): coc.TextEdit[] {
+    const projectNode: Element | undefined = getNodesByTag(document.getText(), XmlTagName.Project)[0] as Element | undefined;
+    if (projectNode === undefined) {
+        return [];
+    }
+    const importedBoms: string[] = getChildElements(projectNode, XmlTagName.DependencyManagement)
+        .flatMap((node) => getChildElements(node, XmlTagName.Dependencies))
+        .flatMap((node) => getChildElements(node, XmlTagName.Dependency))
+        .map((node) => `${getChildText(node, XmlTagName.GroupId)}:${getChildText(node, XmlTagName.ArtifactId)}`);
+    const missing: IBom[] = boms.filter((bom) => !importedBoms.includes(`${bom.groupId}:${bom.artifactId}`));
+    if (missing.length === 0) {
+        return [];
+    }
+    const { parentNode, nodeToInsert } = getBomInsertion(projectNode, missing);
+    return [getInsertionEdit(document, parentNode, nodeToInsert, indent, eol)];
+}
+
+/**
+ * Get the node to insert the boms into, creating <dependencyManagement><dependencies> when missing.
+ */
+function getBomInsertion(projectNode: Element, boms: IBom[]): { parentNode: Element; nodeToInsert: PomNode } {
+    const depMgmtNode: Element | undefined =
+        projectNode.children &&
+        (projectNode.children.find((node) => isTag(node) && node.tagName === XmlTagName.DependencyManagement) as Element);
+    if (depMgmtNode !== undefined) {
+        const depsNodes: Element | undefined =
+            depMgmtNode.children &&
+            (depMgmtNode.children.find((node) => isTag(node) && node.tagName === XmlTagName.Dependencies) as Element);
+        if (depsNodes !== undefined) {
+            return { parentNode: depsNodes, nodeToInsert: new BOMNodes(boms) };
+        } else {
+            return { parentNode: depMgmtNode, nodeToInsert: new BOMNodes(boms, { parents: ["dependencies"] }) };
+        }
+    } else {
+        return { parentNode: projectNode, nodeToInsert: new BOMNodes(boms, { parents: ["dependencies", "dependencyManagement"] }) };
+    }
+}
 
+async function removeFromWorkspaceEdit(
+    edit: coc.WorkspaceEdit,
+    uri: coc.Uri,
+    deps: IArtifact[],
+    boms: IArtifact[]
+): Promise<coc.WorkspaceEdit> {
+    const baseDocument: coc.Document = await coc.workspace.openTextDocument(uri);
+    const currentDocument: coc.TextDocument = baseDocument.textDocument;
+    const textEdits: coc.TextEdit[] = getRemovalEdits(currentDocument, deps, boms);
     edit.changes ??= {};
-    edit.changes[currentDocument.uri] = [textEdit];
+    edit.changes[currentDocument.uri] = [...(edit.changes[currentDocument.uri] ?? []), ...textEdits];
     return edit;
 }
 
 /**
- * src: \t\t<position>...
- * returns "\t\t"
+ * Get the edits removing the dependencies and bom imports from the pom. Containers emptied by the removal of their
+ * last bom are removed too, up to <dependencyManagement>. Like getBomImportEdits, the edits are returned instead of
+ * applied.
  */
-function getIndentation(document: coc.TextDocument, offset: number | null): string {
-    const pos: coc.Position = document.positionAt(offset as number);
-    const lineContentToPos = document.getText(coc.Range.create(coc.Position.create(pos.line, 0), pos));
-    const m = RegExp(/^\s+/).exec(lineContentToPos);
-    return m ? m[0] : "";
+export function getRemovalEdits(document: coc.TextDocument, deps: IArtifact[], boms: IArtifact[]): coc.TextEdit[] {
+    const projectNode: Element | undefined = getNodesByTag(document.getText(), XmlTagName.Project)[0] as Element | undefined;
+    if (projectNode === undefined) {
+        return [];
+    }
+    const matches = (node: Element, artifacts: IArtifact[]) =>
+        artifacts.some(
+            (a) => a.groupId === getChildText(node, XmlTagName.GroupId) && a.artifactId === getChildText(node, XmlTagName.ArtifactId)
+        );
+    const countChildElements = (node: Element) => node.children.filter(isTag).length;
+
+    const nodesToRemove: Element[] = getChildElements(projectNode, XmlTagName.Dependencies)
+        .flatMap((node) => getChildElements(node, XmlTagName.Dependency))
+        .filter((node) => matches(node, deps));
+    for (const depMgmtNode of getChildElements(projectNode, XmlTagName.DependencyManagement)) {
+        const depsNodes: Element[] = getChildElements(depMgmtNode, XmlTagName.Dependencies);
+        const removedBoms: Element[][] = depsNodes.map((node) =>
+            getChildElements(node, XmlTagName.Dependency).filter((bomNode) => matches(bomNode, boms))
+        );
+        const emptied: Element[] = depsNodes.filter(
+            (node, i) => removedBoms[i].length > 0 && removedBoms[i].length === countChildElements(node)
+        );
+        if (emptied.length > 0 && emptied.length === countChildElements(depMgmtNode)) {
+            nodesToRemove.push(depMgmtNode);
+        } else {
+            depsNodes.forEach((node, i) => nodesToRemove.push(...(emptied.includes(node) ? [node] : removedBoms[i])));
+        }
+    }
+    return nodesToRemove.map((node) =>
+        coc.TextEdit.del(getDeletionRange(document, node.startIndex as number, (node.endIndex as number) + 1))
+    );
+}
+
+interface IUpdateOptions {
+    removal?: { deps: IArtifact[]; boms: IArtifact[] };
+    repositories?: IRepositoryNode[];
+    // also declare the repositories as plugin repositories, e.g. for milestone or snapshot versions of spring boot
+    pluginRepositories?: boolean;
 }
 
 interface IArtifact {
@@ -153,6 +364,53 @@ class DependencyNodes extends PomNode {
     }
 }
 
+class ModuleNodes extends PomNode {
+    constructor(
+        private readonly modules: string[],
+        private readonly options?: { initParent?: boolean }
+    ) {
+        super();
+    }
+
+    public getTextLines(indent: string): string[] {
+        const listOfLines: string[] = this.modules.map((module) => `<module>${module}</module>`);
+        if (this.options?.initParent) {
+            return PomNode.wrapWithParentNode(listOfLines, indent, "modules");
+        } else {
+            return listOfLines;
+        }
+    }
+}
+
+class RepositoryNodes extends PomNode {
+    constructor(
+        private readonly repositories: IRepositoryNode[],
+        private readonly tag: string,
+        private readonly options?: { parent?: string }
+    ) {
+        super();
+    }
+
+    public getTextLines(indent: string): string[] {
+        const listOfLines: string[] = this.repositories.flatMap((repo) => this.toTextLine(repo, indent));
+        if (this.options?.parent) {
+            return PomNode.wrapWithParentNode(listOfLines, indent, this.options.parent);
+        } else {
+            return listOfLines;
+        }
+    }
+
+    private toTextLine(repo: IRepositoryNode, indent: string): string[] {
+        const lines: string[] = [
+            `<id>${repo.id[0]}</id>`,
+            `<name>${repo.name[0]}</name>`,
+            `<url>${repo.url[0]}</url>`,
+            ...PomNode.wrapWithParentNode([`<enabled>${repo.snapshots[0].enabled[0]}</enabled>`], indent, "snapshots")
+        ];
+        return PomNode.wrapWithParentNode(lines, indent, this.tag);
+    }
+}
+
 export async function focusCurrentResource(location: coc.Uri | string, alternateWindowId?: number, openCommand?: string): Promise<void> {
     const stringUri: string = typeof location === "string" ? location : location.toString();
     const textEditor: coc.TextEditor | undefined = coc.window.activeTextEditor;
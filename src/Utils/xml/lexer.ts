@@ -1,15 +1,30 @@
 // Copyright (c) Microsoft Corporation. All rights reserved.
 // Licensed under the MIT license.
 
-import { Document, isTag, Node, NodeWithChildren } from "domhandler";
+import { Document, Element, isTag, isText, Node, NodeWithChildren } from "domhandler";
 import * as hp from "htmlparser2";
 
 export enum XmlTagName {
     GroupId = "groupId",
     ArtifactId = "artifactId",
     Version = "version",
+    Scope = "scope",
     Dependencies = "dependencies",
+    Dependency = "dependency",
+    Id = "id",
+    Url = "url",
+    Repositories = "repositories",
+    Repository = "repository",
+    PluginRepositories = "pluginRepositories",
+    PluginRepository = "pluginRepository",
     Plugins = "plugins",
+    Parent = "parent",
+    RelativePath = "relativePath",
+    Properties = "properties",
+    Modules = "modules",
+    Module = "module",
+    Build = "build",
+    Plugin = "plugin",
     Project = "project",
     DependencyManagement = "dependencyManagement"
 }
@@ -25,6 +40,23 @@ export function getNodesByTag(text: string, tag: string): Node[] {
     return ret;
 }
 
+export function getChildElements(node: Element, tag: string): Element[] {
+    return (node.children || []).filter((child) => isTag(child) && child.tagName === tag) as Element[];
+}
+
+export function getChildText(node: Element, tag: string): string | undefined {
+    const child: Element | undefined = getChildElements(node, tag)[0];
+    return child === undefined ? undefined : getText(child);
+}
+
+export function getText(node: Element): string {
+    return node.children
+        .filter(isText)
+        .map((text) => text.data)
+        .join("")
+        .trim();
+}
+
 function dfs(node: Node, pred: (arg: Node) => boolean, result: Node[]) {
     if (pred(node)) {
         result.push(node);
@@ -36,4 +68,3 @@ function dfs(node: Node, pred: (arg: Node) => boolean, result: Node[]) {
         }
     }
 }
-
@@ -0,0 +1,157 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license.
+
+import { Element, isTag } from "domhandler";
+import { getChildElements, getChildText, getNodesByTag, getText, XmlTagName } from "./lexer";
+
+const DEFAULT_PLUGIN_GROUP_ID: string = "org.apache.maven.plugins";
+const BOOT_PLUGIN_ID: string = "org.springframework.boot:spring-boot-maven-plugin";
+
+interface IEdit {
+    start: number;
+    // exclusive
+    end: number;
+    text: string;
+}
+
+/**
+ * Turn the pom of a generated project into the pom of a module of a multi-module build. The <parent> is pointed at
+ * the pom of the build, and properties or plugins already declared the same way by that pom are dropped.
+ * @param text content of the generated pom.
+ * @param parentText content of the pom of the multi-module build.
+ * @param relativePath path of the pom of the build, relative to the module folder.
+ * @param bootVersion when specified, spring boot dependencies are imported as BOM, because the build does not inherit
+ * them from spring-boot-starter-parent.
+ */
+export function toModulePom(text: string, parentText: string, relativePath: string, bootVersion?: string): string {
+    const projectNode: Element | undefined = getNodesByTag(text, XmlTagName.Project)[0] as Element | undefined;
+    const parentProjectNode: Element | undefined = getNodesByTag(parentText, XmlTagName.Project)[0] as Element | undefined;
+    if (projectNode === undefined || parentProjectNode === undefined) {
+        return text;
+    }
+    const indent: string = getLineIndentation(text, (projectNode.children.find(isTag) as Element | undefined)?.startIndex ?? 0);
+    const edits: IEdit[] = [];
+
+    // <parent>
+    const parentNode: Element | undefined = getChildElements(projectNode, XmlTagName.Parent)[0];
+    if (parentNode !== undefined) {
+        const grandParentNode: Element | undefined = getChildElements(parentProjectNode, XmlTagName.Parent)[0];
+        const inherited = (tag: string) => getChildText(parentProjectNode, tag) ?? (grandParentNode && getChildText(grandParentNode, tag));
+        const lines: string[] = [
+            `<groupId>${inherited(XmlTagName.GroupId)}</groupId>`,
+            `<artifactId>${getChildText(parentProjectNode, XmlTagName.ArtifactId)}</artifactId>`,
+            `<version>${inherited(XmlTagName.Version)}</version>`,
+            `<relativePath>${relativePath}</relativePath>`
+        ];
+        const baseIndent: string = getLineIndentation(text, parentNode.startIndex as number);
+        const eol: string = text.includes("\r\n") ? "\r\n" : "\n";
+        edits.push({
+            start: parentNode.startIndex as number,
+            end: (parentNode.endIndex as number) + 1,
+            text: ["<parent>", ...lines.map((line) => `${indent}${line}`), "</parent>"].join(`${eol}${baseIndent}`)
+        });
+    }
+
+    // <properties>, only those with different values are kept
+    const propertiesNode: Element | undefined = getChildElements(projectNode, XmlTagName.Properties)[0];
+    const parentPropertiesNode: Element | undefined = getChildElements(parentProjectNode, XmlTagName.Properties)[0];
+    if (propertiesNode !== undefined && parentPropertiesNode !== undefined) {
+        const properties: Element[] = propertiesNode.children.filter(isTag) as Element[];
+        const duplicated: Element[] = properties.filter((node) => getChildText(parentPropertiesNode, node.name) === getText(node));
+        edits.push(...removeElements(text, duplicated.length === properties.length ? [propertiesNode] : duplicated));
+    }
+
+    // <build><plugins>, plugins declared in the build are inherited
+    const buildNode: Element | undefined = getChildElements(projectNode, XmlTagName.Build)[0];
+    const pluginsNode: Element | undefined = buildNode && getChildElements(buildNode, XmlTagName.Plugins)[0];
+    const plugins: Element[] = pluginsNode ? getChildElements(pluginsNode, XmlTagName.Plugin) : [];
+    const parentPluginIds: string[] = getChildElements(parentProjectNode, XmlTagName.Build)
+        .flatMap((node) => getChildElements(node, XmlTagName.Plugins))
+        .flatMap((node) => getChildElements(node, XmlTagName.Plugin))
+        .map(getPluginId);
+    const duplicatedPlugins: Element[] = plugins.filter((node) => parentPluginIds.includes(getPluginId(node)));
+    if (buildNode !== undefined && pluginsNode !== undefined && duplicatedPlugins.length > 0) {
+        if (duplicatedPlugins.length < plugins.length) {
+            edits.push(...removeElements(text, duplicatedPlugins));
+        } else if (buildNode.children.filter(isTag).length === 1) {
+            edits.push(...removeElements(text, [buildNode]));
+        } else {
+            edits.push(...removeElements(text, [pluginsNode]));
+        }
+    }
+
+    if (bootVersion) {
+        edits.push(...importBootDependencies(text, projectNode, indent, bootVersion));
+        // the plugin version is managed by spring-boot-starter-parent as well
+        const bootPlugin: Element | undefined = plugins.find((node) => getPluginId(node) === BOOT_PLUGIN_ID);
+        const artifactIdNode: Element | undefined = bootPlugin && getChildElements(bootPlugin, XmlTagName.ArtifactId)[0];
+        if (artifactIdNode !== undefined && !duplicatedPlugins.includes(bootPlugin as Element)) {
+            const offset: number = (artifactIdNode.endIndex as number) + 1;
+            const eol: string = text.includes("\r\n") ? "\r\n" : "\n";
+            edits.push({ start: offset, end: offset, text: `${eol}${getLineIndentation(text, offset)}<version>${bootVersion}</version>` });
+        }
+    }
+
+    return applyEdits(text, edits);
+}
+
+/**
+ * Get the id of the plugin in the form of groupId:artifactId.
+ */
+function getPluginId(node: Element): string {
+    return `${getChildText(node, XmlTagName.GroupId) ?? DEFAULT_PLUGIN_GROUP_ID}:${getChildText(node, XmlTagName.ArtifactId)}`;
+}
+
+function importBootDependencies(text: string, projectNode: Element, indent: string, bootVersion: string): IEdit[] {
+    const dependenciesNode: Element | undefined = getChildElements(projectNode, XmlTagName.Dependencies)[0];
+    if (dependenciesNode === undefined) {
+        return [];
+    }
+    const eol: string = text.includes("\r\n") ? "\r\n" : "\n";
+    const baseIndent: string = getLineIndentation(text, dependenciesNode.startIndex as number);
+    const bomLines: string[] = [
+        "<groupId>org.springframework.boot</groupId>",
+        "<artifactId>spring-boot-dependencies</artifactId>",
+        `<version>${bootVersion}</version>`,
+        "<type>pom</type>",
+        "<scope>import</scope>"
+    ];
+    let lines: string[] = bomLines;
+    for (const parent of ["dependency", "dependencies", "dependencyManagement"]) {
+        lines = [`<${parent}>`, ...lines.map((line) => `${indent}${line}`), `</${parent}>`];
+    }
+    const offset: number = (dependenciesNode.startIndex as number) - baseIndent.length;
+    return [{ start: offset, end: offset, text: lines.map((line) => `${baseIndent}${line}${eol}`).join("") }];
+}
+
+/**
+ * The elements are removed together with their lines, when nothing else is on them.
+ */
+function removeElements(text: string, nodes: Element[]): IEdit[] {
+    return nodes.map((node) => {
+        let start: number = node.startIndex as number;
+        let end: number = (node.endIndex as number) + 1;
+        const lineStart: number = text.lastIndexOf("\n", start - 1) + 1;
+        const lineEnd: number = text.indexOf("\n", end);
+        const nextLineStart: number = lineEnd === -1 ? text.length : lineEnd + 1;
+        if (text.substring(lineStart, start).trim() === "" && text.substring(end, nextLineStart).trim() === "") {
+            start = lineStart;
+            end = nextLineStart;
+        }
+        return { start, end, text: "" };
+    });
+}
+
+function getLineIndentation(text: string, offset: number): string {
+    const lineStart: number = text.lastIndexOf("\n", offset - 1) + 1;
+    const m = RegExp(/^[ \t]*/).exec(text.substring(lineStart, offset));
+    return m ? m[0] : "";
+}
+
+function applyEdits(text: string, edits: IEdit[]): string {
+    let ret: string = text;
+    for (const edit of [...edits].sort((a, b) => b.start - a.start)) {
+        ret = ret.substring(0, edit.start) + edit.text + ret.substring(edit.end);
+    }
+    return ret;
+}
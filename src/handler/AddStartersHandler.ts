@@ -2,15 +2,42 @@
 // Licensed under the MIT license.
 
 import * as coc from "coc.nvim";
+import { uniq } from "lodash";
 import * as path from "path";
-import { DependencyManager, IDependenciesItem } from "../DependencyManager";
-import { getBootVersion, getDependencyNodes, getParentRelativePath, IMavenId, IStarters, serviceManager, XmlNode } from "../model";
+import { DependencyManager, IDependenciesItem, updateDependenciesHistory } from "../DependencyManager";
+import {
+    getBomNodes,
+    getBootVersion,
+    getDependencyNodes,
+    getGradleBoms,
+    getGradleBootVersion,
+    getGradleDependencies,
+    getParentRelativePath,
+    getPropertyValue,
+    IMavenId,
+    IStarters,
+    parseGradleProperties,
+    removeDependencyNode,
+    RepositoryNode,
+    serviceManager,
+    XmlNode
+} from "../model";
 import { readXmlContent } from "../Utils";
 import { isDirectory, isFile, pathExists } from "../Utils/fsHelper";
+import { updateBuildGradle } from "../Utils/gradle";
+import { isPreRelease } from "../Utils/VersionHelper";
 import { updatePom } from "../Utils/xml";
 import { BaseHandler } from "./BaseHandler";
+import { pickStarterDocs } from "./StarterDocsHandler";
 import { specifyServiceUrl } from "./utils";
 
+interface IProjectDependencies {
+    // parsed pom, undefined for gradle build files
+    xml?: { project: XmlNode };
+    deps: string[]; // gid:aid
+    importedBoms: string[]; // gid:aid
+}
+
 export class AddStartersHandler extends BaseHandler {
     private serviceUrl: string | undefined = undefined;
 
@@ -19,21 +46,14 @@ export class AddStartersHandler extends BaseHandler {
     }
 
     public async runSteps(_: string, entry: coc.Uri): Promise<void> {
-        const bootVersion: string | undefined = await searchForBootVersion(entry);
+        const gradle: boolean = isGradleBuildFile(entry);
+        const bootVersion: string | undefined = gradle ? await searchForGradleBootVersion(entry) : await searchForBootVersion(entry);
         if (!bootVersion) {
             const ex = new Error("Not within a valid Spring Boot project.");
             throw ex;
         }
 
-        const deps: string[] = []; // gid:aid
-        // Read pom.xml for $dependencies(gid, aid)
-        const baseDocument: coc.Document = await coc.workspace.openTextDocument(entry);
-        const content: string | undefined = baseDocument.textDocument.getText();
-        const xml: { project: XmlNode } = await readXmlContent(content);
-
-        getDependencyNodes(xml.project).forEach((elem) => {
-            deps.push(`${elem.groupId[0]}:${elem.artifactId[0]}`);
-        });
+        const { deps } = await readProjectDependencies(entry);
 
         this.serviceUrl = await specifyServiceUrl();
         if (this.serviceUrl === undefined) {
@@ -47,18 +67,11 @@ export class AddStartersHandler extends BaseHandler {
             }
         );
 
-        const oldStarterIds: string[] = [];
         if (!starters.dependencies) {
             await coc.window.showErrorMessage("Unable to retrieve information of available starters.");
             return;
         }
-
-        Object.keys(starters.dependencies).forEach((key) => {
-            const elem: IMavenId = starters.dependencies[key];
-            if (deps.indexOf(`${elem.groupId}:${elem.artifactId}`) >= 0) {
-                oldStarterIds.push(key);
-            }
-        });
+        const oldStarterIds: string[] = getExistingStarterIds(starters, deps);
         const dependencyManager = new DependencyManager(bootVersion);
         const results: string[] = [];
         results.push(...oldStarterIds);
@@ -67,52 +80,196 @@ export class AddStartersHandler extends BaseHandler {
         do {
             current = await coc.window.showQuickPick(dependencyManager.getQuickPickItems(this.serviceUrl), {
                 matchOnDescription: true,
-                placeholder: "Select dependencies to add."
+                placeholder: "Select dependencies to add or remove."
             });
-            if (current?.itemType === "dependency" && oldStarterIds.indexOf(current.id) === -1) {
+            if (current?.itemType === "dependency") {
                 dependencyManager.toggleDependency(current.id);
+            } else if (current?.itemType === "docs") {
+                await pickStarterDocs(dependencyManager.dependencies, bootVersion, dependencyManager.selectedIds);
             }
-        } while (current && current.itemType === "dependency");
+        } while (current && (current.itemType === "dependency" || current.itemType === "docs"));
 
         if (!current || current === undefined) {
             return;
         }
 
         const toAdd: string[] = dependencyManager.selectedIds.filter((elem) => oldStarterIds.indexOf(elem) < 0);
-        if (toAdd.length === 0) {
+        const toRemove: string[] = oldStarterIds.filter((elem) => dependencyManager.selectedIds.indexOf(elem) < 0);
+        if (toAdd.length === 0 && toRemove.length === 0) {
             coc.window.showInformationMessage("No changes.");
             return;
         }
 
-        const msgAdd: string = toAdd?.length
-            ? `Adding: [${toAdd
-                  .map((d) => dependencyManager?.dict[d].name)
-                  .filter(Boolean)
-                  .join(", ")}].`
-            : "";
+        const getNames = (ids: string[]) => ids.map((d) => dependencyManager.dict[d]?.name ?? d).join(", ");
+        const msgAdd: string = toAdd.length ? `Adding: [${getNames(toAdd)}].` : "";
+        const msgRemove: string = toRemove.length ? `Removing: [${getNames(toRemove)}].` : "";
         const choice: string | undefined = await coc.window.showQuickPick(["Proceed", "Cancel"], {
-            placeHolder: `${msgAdd} Proceed?`
+            placeholder: `${[msgAdd, msgRemove].filter(Boolean).join(" ")} Proceed?`
         });
         if (choice !== "Proceed") {
             return;
         }
 
-        const artifacts = toAdd.map((id) => starters.dependencies[id]);
-        const bomIds = toAdd.map((id) => starters.dependencies[id].bom).filter(Boolean);
-        const boms = bomIds.filter((id) => id !== undefined).map((id) => starters.boms[id]);
+        await applyStarterChanges(entry, bootVersion, starters, toAdd, toRemove);
+    }
+}
+
+/**
+ * Add and remove starters of the build file, together with the boms and repositories they need.
+ * @param toAdd ids of starters to add.
+ * @param toRemove ids of starters to remove.
+ */
+export async function applyStarterChanges(
+    entry: coc.Uri,
+    bootVersion: string,
+    starters: IStarters,
+    toAdd: string[],
+    toRemove: string[]
+): Promise<void> {
+    const gradle: boolean = isGradleBuildFile(entry);
+    const { xml, deps, importedBoms } = await readProjectDependencies(entry);
+    const oldStarterIds: string[] = getExistingStarterIds(starters, deps);
+
+    // Boms are still needed as long as any of the starters left in the project references them
+    const toGav = (id: string) => `${starters.dependencies[id].groupId}:${starters.dependencies[id].artifactId}`;
+    let remainingDeps: string[];
+    if (xml !== undefined) {
+        toRemove.forEach((id) => {
+            removeDependencyNode(xml.project, starters.dependencies[id].groupId, starters.dependencies[id].artifactId);
+        });
+        remainingDeps = getDependencyNodes(xml.project).map((elem) => `${elem.groupId[0]}:${elem.artifactId[0]}`);
+    } else {
+        remainingDeps = deps.filter((gav) => !toRemove.map(toGav).includes(gav));
+    }
+    const remainingStarterIds: string[] = [...oldStarterIds.filter((id) => remainingDeps.includes(toGav(id))), ...toAdd];
+    const usedBomIds: string[] = remainingStarterIds.map((id) => starters.dependencies[id].bom).filter(Boolean) as string[];
+    const bomToGav = (id: string) => `${starters.boms[id].groupId}:${starters.boms[id].artifactId}`;
+
+    const artifacts = toAdd.map((id) => starters.dependencies[id]);
+    const boms = uniq(toAdd.map((id) => starters.dependencies[id].bom))
+        .filter((id) => id !== undefined && starters.boms[id] !== undefined)
+        .filter((id: string) => !importedBoms.includes(bomToGav(id)))
+        .map((id: string) => starters.boms[id]);
+    const removal = {
+        deps: toRemove.map((id) => starters.dependencies[id]),
+        boms: uniq(toRemove.map((id) => starters.dependencies[id].bom))
+            .filter((id) => id !== undefined && starters.boms[id] !== undefined && !usedBomIds.includes(id))
+            .map((id: string) => starters.boms[id])
+    };
+
+    // Milestone and snapshot starters or boms are only available from the spring repositories
+    const addedBomIds: string[] = uniq(toAdd.map((id) => starters.dependencies[id].bom)).filter(Boolean) as string[];
+    const repositories = uniq([
+        ...toAdd.map((id) => starters.dependencies[id].repository),
+        ...addedBomIds.flatMap((id) => starters.boms[id]?.repositories ?? [])
+    ])
+        .filter((id) => id !== undefined && starters.repositories?.[id] !== undefined)
+        .map((id: string) => {
+            const { name, url, snapshotEnabled } = starters.repositories[id];
+            return new RepositoryNode(id, name, url, snapshotEnabled).node;
+        });
+    const options = { removal, repositories, pluginRepositories: isPreRelease(bootVersion) };
 
-        updatePom(entry, artifacts, boms);
+    if (gradle) {
+        await updateBuildGradle(entry, artifacts, boms, options);
+        coc.window.showInformationMessage("Build file successfully updated.");
+    } else {
+        await updatePom(entry, artifacts, boms, options);
         coc.window.showInformationMessage("Pom file successfully updated.");
     }
+    await updateDependenciesHistory(toAdd);
+}
+
+/**
+ * Get ids of the starters declared in the project.
+ * @param deps coordinates of the dependencies of the project, in the form of gid:aid.
+ */
+export function getExistingStarterIds(starters: IStarters, deps: string[]): string[] {
+    return Object.keys(starters.dependencies ?? {}).filter((key) => {
+        const elem: IMavenId = starters.dependencies[key];
+        return deps.includes(`${elem.groupId}:${elem.artifactId}`);
+    });
+}
+
+async function readProjectDependencies(entry: coc.Uri): Promise<IProjectDependencies> {
+    const gradle: boolean = isGradleBuildFile(entry);
+    const deps: string[] = []; // gid:aid
+    const importedBoms: string[] = []; // gid:aid
+    // Read pom.xml or build.gradle for $dependencies(gid, aid)
+    const baseDocument: coc.Document = await coc.workspace.openTextDocument(entry);
+    const content: string | undefined = baseDocument.textDocument.getText();
+    const xml: { project: XmlNode } | undefined = gradle ? undefined : await readXmlContent(content);
+    if (xml === undefined) {
+        getGradleDependencies(content).forEach((elem) => {
+            deps.push(`${elem.groupId}:${elem.artifactId}`);
+        });
+        getGradleBoms(content).forEach((elem) => {
+            importedBoms.push(`${elem.groupId}:${elem.artifactId}`);
+        });
+    } else {
+        getDependencyNodes(xml.project).forEach((elem) => {
+            deps.push(`${elem.groupId[0]}:${elem.artifactId[0]}`);
+        });
+        getBomNodes(xml.project).forEach((elem) => {
+            importedBoms.push(`${elem.groupId[0]}:${elem.artifactId[0]}`);
+        });
+    }
+    return { xml, deps, importedBoms };
+}
+
+function isGradleBuildFile(uri: coc.Uri): boolean {
+    const fileName: string = path.basename(uri.fsPath).toLowerCase();
+    return fileName === "build.gradle" || fileName === "build.gradle.kts";
+}
+
+async function searchForGradleBootVersion(uri: coc.Uri): Promise<string | undefined> {
+    // the plugin version is usually declared in the build file itself, but in multi-project builds it might be declared
+    // with "apply false" in the root build file, or in the plugin management section of the settings file
+    const settingsFiles: string[] = ["settings.gradle", "settings.gradle.kts"];
+    let candidates: string[] = [path.basename(uri.fsPath), ...settingsFiles];
+    let folder: string = path.dirname(uri.fsPath);
+    while (true) {
+        const propertiesFile: string = path.join(folder, "gradle.properties");
+        const properties = (await isFile(propertiesFile)) ? parseGradleProperties(await coc.workspace.readFile(propertiesFile)) : {};
+        let isRootProject: boolean = false;
+        for (const candidate of candidates) {
+            const file: string = path.join(folder, candidate);
+            if (await isFile(file)) {
+                const bootVersion: string | undefined = getGradleBootVersion(await coc.workspace.readFile(file), properties);
+                if (bootVersion) {
+                    return bootVersion;
+                }
+                isRootProject = isRootProject || settingsFiles.includes(candidate);
+            }
+        }
+        const parentFolder: string = path.dirname(folder);
+        if (isRootProject || parentFolder === folder) {
+            return undefined;
+        }
+        folder = parentFolder;
+        candidates = ["build.gradle", "build.gradle.kts", ...settingsFiles];
+    }
 }
 
 async function searchForBootVersion(uri: coc.Uri): Promise<string | undefined> {
+    return (await searchForBootParentPom(uri))?.bootVersion;
+}
+
+/**
+ * Find the pom declaring spring-boot-starter-parent as its parent, searching recursively in the parent poms.
+ * @returns uri of the pom and the declared version of spring boot, or undefined if not found.
+ */
+export async function searchForBootParentPom(uri: coc.Uri): Promise<{ uri: coc.Uri; bootVersion: string } | undefined> {
     const content: string = await coc.workspace.readFile(uri.fsPath);
     const { project: projectNode } = await readXmlContent(content);
-    const bootVersion: string | undefined = getBootVersion(projectNode);
+    let bootVersion: string | undefined = getBootVersion(projectNode);
+    const ref = RegExp(/^\$\{(.+)\}$/).exec(bootVersion ?? "");
+    if (ref) {
+        bootVersion = getPropertyValue(projectNode, ref[1]);
+    }
 
     if (bootVersion) {
-        return bootVersion;
+        return { uri, bootVersion };
     }
 
     // search recursively in parent pom
@@ -127,7 +284,7 @@ async function searchForBootVersion(uri: coc.Uri): Promise<string | undefined> {
             newUri = uri.with({ path: path.join(newPath, "pom.xml") });
         }
         if ((await pathExists(newUri)) && (await isFile(newUri))) {
-            return await searchForBootVersion(newUri);
+            return await searchForBootParentPom(newUri);
         }
     }
     return undefined;
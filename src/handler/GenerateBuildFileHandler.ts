@@ -0,0 +1,101 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license.
+
+import * as coc from "coc.nvim";
+import * as fse from "fs-extra";
+import * as path from "path";
+import { OperationCanceledError } from "../Errors";
+import { ProjectType } from "../model";
+import { downloadFile, getTargetFile } from "../Utils";
+import { openUnsavedBuffer } from "../Utils/scratchBuffer";
+import { BaseHandler } from "./BaseHandler";
+import { getDownloadUrl, runWizardSteps } from "./GenerateProjectHandler";
+import { IDefaultProjectData, IProjectMetadata } from "./HandlerInterfaces";
+
+interface IBuildFile {
+    fileName: string;
+    // endpoint of the service generating the build file
+    action: string;
+    projectType: ProjectType;
+    filetype: string;
+}
+
+const BUILD_FILES: IBuildFile[] = [
+    { fileName: "pom.xml", action: "/pom.xml", projectType: ProjectType.MAVEN, filetype: "xml" },
+    { fileName: "build.gradle", action: "/build.gradle", projectType: ProjectType.GRADLE, filetype: "groovy" },
+    { fileName: "build.gradle.kts", action: "/build.gradle.kts", projectType: ProjectType.GRADLE_KOTLIN, filetype: "kotlin" }
+];
+
+export class GenerateBuildFileHandler extends BaseHandler {
+    private readonly metadata: IProjectMetadata;
+
+    constructor(defaults?: IDefaultProjectData) {
+        super();
+        this.metadata = { pickSteps: [], defaults: defaults || {} };
+    }
+
+    protected get failureMessage(): string {
+        return "Failed to generate the build file.";
+    }
+
+    public async runSteps(operationId: string): Promise<void> {
+        const selected = await coc.window.showQuickPick(
+            BUILD_FILES.map((buildFile) => ({ label: buildFile.fileName, buildFile })),
+            { placeholder: "Select the build file to generate." }
+        );
+        if (selected === undefined) {
+            throw new OperationCanceledError("Build file not specified.");
+        }
+        const { buildFile } = selected;
+
+        await runWizardSteps(operationId, this.metadata);
+        const targetUrl: string = await getDownloadUrl(buildFile.projectType, this.metadata, buildFile.action);
+        const content: string = await coc.window.withProgress({ title: `Downloading ${buildFile.fileName}...` }, async () =>
+            downloadFile(targetUrl, true)
+        );
+
+        // the project is located by its existing build file, generating next to the workspace root otherwise
+        const existingFile: coc.Uri | undefined = await getTargetFile([buildFile.fileName]);
+        if (existingFile === undefined && (await coc.workspace.findFiles(`**/${buildFile.fileName}`)).length > 0) {
+            // the selection of the project among several was dismissed
+            throw new OperationCanceledError("Target project not specified.");
+        }
+        const workspaceFolder: string | undefined = coc.workspace.workspaceFolders?.[0]?.uri;
+        const targetFolder: string = existingFile
+            ? path.dirname(existingFile.fsPath)
+            : workspaceFolder
+              ? coc.Uri.parse(workspaceFolder).fsPath
+              : process.cwd();
+        const targetPath: string = path.join(targetFolder, buildFile.fileName);
+        const targetExists: boolean = existingFile !== undefined || (await fse.pathExists(targetPath));
+
+        const OPTION_NEW_BUFFER: string = "Open in new buffer";
+        const OPTION_COMPARE: string = `Compare with ${targetPath}`;
+        const OPTION_WRITE: string = targetExists ? `Overwrite ${targetPath}` : `Write to ${targetPath}`;
+        const options: string[] = targetExists ? [OPTION_NEW_BUFFER, OPTION_COMPARE, OPTION_WRITE] : [OPTION_NEW_BUFFER, OPTION_WRITE];
+        const choice: string | undefined = await coc.window.showQuickPick(options, {
+            placeholder: `Generated ${buildFile.fileName}.`
+        });
+        if (choice === OPTION_NEW_BUFFER) {
+            await openUnsavedBuffer(content, buildFile.filetype);
+        } else if (choice === OPTION_COMPARE) {
+            await showDiff(coc.Uri.file(targetPath), content, buildFile.filetype);
+        } else if (choice === OPTION_WRITE) {
+            await fse.writeFile(targetPath, content);
+            await coc.workspace.jumpTo(coc.Uri.file(targetPath).toString());
+        }
+    }
+}
+
+/**
+ * Show the generated content side by side with the existing file in a new tab, so changes can be merged with the
+ * diff commands of vim, e.g. `:diffget`.
+ */
+async function showDiff(existingFile: coc.Uri, content: string, filetype: string): Promise<void> {
+    const { nvim } = coc.workspace;
+    const escapedPath: string = await nvim.call("fnameescape", [existingFile.fsPath]);
+    await nvim.command(`tabedit ${escapedPath}`);
+    await nvim.command("diffthis");
+    await openUnsavedBuffer(content, filetype, "leftabove vnew");
+    await nvim.command("diffthis");
+}
@@ -0,0 +1,139 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license.
+
+import * as coc from "coc.nvim";
+import * as fse from "fs-extra";
+import * as path from "path";
+import { OperationCanceledError } from "../Errors";
+import { serviceManager } from "../model";
+import { Identifiable, Metadata } from "../model/Metadata";
+import { artifactIdValidation, getDefaultPackageName, groupIdValidation, packageNameValidation } from "../Utils";
+import { UserError } from "../Utils/error";
+import { matchRange } from "../Utils/VersionHelper";
+import { BaseHandler } from "./BaseHandler";
+import { downloadAndUnzip, getDownloadUrl } from "./GenerateProjectHandler";
+import { IProjectMetadata, IProjectSpec, ParentFolder } from "./HandlerInterfaces";
+import { runPostGenerateHooks } from "./PostGenerateHooks";
+import { getConfiguredServiceUrl } from "./utils";
+
+export class GenerateFromSpecHandler extends BaseHandler {
+    protected get failureMessage(): string {
+        return "Failed to create a project from spec.";
+    }
+
+    public async runSteps(_: string, specOrPath?: IProjectSpec | string): Promise<void> {
+        const spec: IProjectSpec | undefined = await readSpec(specOrPath);
+        if (spec === undefined) {
+            throw new OperationCanceledError("Spec file not specified.");
+        }
+
+        const problems: string[] = [];
+        const serviceUrl: string = spec.serviceUrl || getConfiguredServiceUrl();
+        const metadata: Metadata = await serviceManager.getMetadata(serviceUrl);
+
+        const type = validateValue("type", spec.type, metadata.type, problems);
+        const bootVersion = validateValue("bootVersion", spec.bootVersion, metadata.bootVersion, problems);
+        const language = validateValue("language", spec.language, metadata.language, problems);
+        const javaVersion = validateValue("javaVersion", spec.javaVersion, metadata.javaVersion, problems);
+        const packaging = validateValue("packaging", spec.packaging, metadata.packaging, problems);
+
+        const groupIdProblem = spec.groupId ? groupIdValidation(spec.groupId) : "Group Id is not specified";
+        const artifactIdProblem = spec.artifactId ? artifactIdValidation(spec.artifactId) : "Artifact Id is not specified";
+        const packageName: string = spec.packageName || getDefaultPackageName(spec.groupId, spec.artifactId);
+        const packageNameProblem = packageNameValidation(packageName) && `Invalid Package Name "${packageName}"`;
+        problems.push(...([groupIdProblem, artifactIdProblem, packageNameProblem].filter(Boolean) as string[]));
+
+        const dependencies: string[] = spec.dependencies || [];
+        for (const id of dependencies) {
+            const dependency = metadata.dependencies.values.flatMap((group) => group.values).find((dep) => dep.id === id);
+            if (dependency === undefined) {
+                problems.push(`Unknown dependency "${id}"`);
+            } else if (bootVersion && dependency.versionRange && !matchRange(bootVersion, dependency.versionRange)) {
+                problems.push(`Dependency "${id}" requires Spring Boot ${dependency.versionRange}, got ${bootVersion}`);
+            }
+        }
+
+        const outputFolder: string = getOutputFolder(spec);
+        if (!spec.overwrite && (await fse.pathExists(outputFolder)) && (await fse.readdir(outputFolder)).length > 0) {
+            problems.push(`Folder ${outputFolder} is not empty, set "overwrite" to generate into it anyway`);
+        }
+
+        if (problems.length > 0) {
+            throw new UserError(`Found ${problems.length} problem(s) in the spec: ${problems.join("; ")}.`);
+        }
+
+        const projectMetadata: IProjectMetadata = {
+            serviceUrl,
+            bootVersion,
+            language,
+            javaVersion,
+            packaging,
+            packageName,
+            groupId: spec.groupId,
+            artifactId: spec.artifactId,
+            name: spec.name,
+            description: spec.description,
+            version: spec.version,
+            dependencies: { itemType: "selection", id: dependencies.join(",") },
+            pickSteps: [],
+            defaults: {}
+        };
+        await fse.ensureDir(outputFolder);
+        await downloadAndUnzip(await getDownloadUrl(type as string, projectMetadata), coc.Uri.file(outputFolder));
+        await runPostGenerateHooks(outputFolder, projectMetadata);
+        coc.window.showInformationMessage(`Project generated at ${outputFolder}.`);
+    }
+}
+
+async function readSpec(specOrPath?: IProjectSpec | string): Promise<IProjectSpec | undefined> {
+    if (typeof specOrPath === "object") {
+        return specOrPath;
+    }
+
+    let specPath: string | undefined = specOrPath;
+    if (specPath === undefined) {
+        const activeUri: string | undefined = coc.window.activeTextEditor?.document.uri;
+        const defaultPath: string = activeUri && activeUri.endsWith(".json") ? coc.Uri.parse(activeUri).fsPath : "";
+        specPath = await coc.window.requestInput("Path of the project spec file", defaultPath);
+        if (!specPath) {
+            return undefined;
+        }
+    }
+    const root: string = coc.workspace.workspaceFolders?.[0] ? coc.Uri.parse(coc.workspace.workspaceFolders[0].uri).fsPath : process.cwd();
+    try {
+        return await fse.readJSON(path.resolve(root, specPath));
+    } catch (error) {
+        throw new UserError(`Unable to read spec file ${specPath}. ${(error as Error).message}`);
+    }
+}
+
+/**
+ * Validate the value against the values supported by the service, matching ids case insensitively. The default of
+ * the service is used when no value is specified.
+ */
+function validateValue(
+    name: string,
+    value: string | undefined,
+    category: { default?: string; values: Identifiable[] },
+    problems: string[]
+): string | undefined {
+    if (value === undefined || value === "") {
+        if (category.default === undefined) {
+            problems.push(`"${name}" is not specified`);
+        }
+        return category.default;
+    }
+    const match = category.values.find((v) => v.id.toLowerCase() === value.toLowerCase());
+    if (match === undefined) {
+        problems.push(`Unsupported ${name} "${value}", expected one of ${category.values.map((v) => v.id).join(", ")}`);
+        return undefined;
+    }
+    return match.id;
+}
+
+function getOutputFolder(spec: IProjectSpec): string {
+    const parentFolder = coc.workspace.getConfiguration("spring.initializr").get<ParentFolder>("parentFolder");
+    const workspaceFolder: string | undefined = coc.workspace.workspaceFolders?.[0]?.uri;
+    const targetFolder: string = spec.targetFolder || (workspaceFolder ? coc.Uri.parse(workspaceFolder).fsPath : process.cwd());
+    return parentFolder === ParentFolder.NONE ? targetFolder : path.join(targetFolder, spec.artifactId || "");
+}
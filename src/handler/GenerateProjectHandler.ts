@@ -2,31 +2,41 @@
 // Licensed under the MIT license.
 
 import * as coc from "coc.nvim";
-import * as extract from "extract-zip";
 import * as fse from "fs-extra";
 import * as path from "path";
 import { URL } from "url";
+import { updateDependenciesHistory } from "../DependencyManager";
 import { OperationCanceledError } from "../Errors";
-import { ProjectType } from "../model";
-import { downloadFile } from "../Utils";
-import { isDirectory } from "../Utils/fsHelper";
+import { serviceManager } from "../model";
+import { Metadata, ProjectType } from "../model/Metadata";
+import { downloadFile, readXmlContent } from "../Utils";
+import { ConflictPolicy, extractArchive, IArchiveEntry, readArchive } from "../Utils/archive";
+import { isDirectory, isFile } from "../Utils/fsHelper";
+import { toModulePom } from "../Utils/xml/module";
+import { searchForBootParentPom } from "./AddStartersHandler";
 import { BaseHandler } from "./BaseHandler";
-import { IDefaultProjectData, IProjectMetadata, IStep, ParentFolder } from "./HandlerInterfaces";
+import { IDefaultProjectData, IProjectMetadata, IStep, ParentFolder, ProjectPreview } from "./HandlerInterfaces";
+import { runPostGenerateHooks } from "./PostGenerateHooks";
+import { previewProject, PreviewChoice } from "./ProjectPreview";
+import { reviewProject } from "./ProjectReview";
 import { SpecifyArtifactIdStep } from "./SpecifyArtifactIdStep";
 import { SpecifyGroupIdStep } from "./SpecifyGroupIdStep";
 import { SpecifyPackageNameStep } from "./SpecifyPackageNameStep";
-import { SpecifyServiceUrlStep } from "./SpecifyServiceUrlStep";
-import { focusCurrentResource } from "../Utils/xml";
+import { SpecifyPresetStep } from "./SpecifyPresetStep";
+import { addModule, focusCurrentResource } from "../Utils/xml";
 
 const OPEN_IN_NEW_WORKSPACE = "Open";
+const DEFAULT_ACTION: string = "/starter.zip";
+const MAVEN_WRAPPER_ENTRIES: string[] = ["mvnw", "mvnw.cmd", ".mvn"];
 const CANCEL_OPEN_WORKSPACE = "Cancel";
 
 export class GenerateProjectHandler extends BaseHandler {
-    private readonly projectType: ProjectType;
+    // id of the project type in the metadata of the service
+    private readonly projectType: string;
     private readonly metadata: IProjectMetadata;
     private outputUri: coc.Uri | undefined;
 
-    constructor(projectType: ProjectType, defaults?: IDefaultProjectData) {
+    constructor(projectType: string, defaults?: IDefaultProjectData) {
         super();
         this.projectType = projectType;
         this.metadata = {
@@ -41,14 +51,10 @@ export class GenerateProjectHandler extends BaseHandler {
     }
 
     public async runSteps(operationId: string): Promise<void> {
-        let step: IStep | undefined = SpecifyServiceUrlStep.getInstance();
+        await runWizardSteps(operationId, this.metadata);
 
-        SpecifyArtifactIdStep.getInstance().resetDefaultInput();
-        SpecifyGroupIdStep.getInstance().resetDefaultInput();
-        SpecifyPackageNameStep.getInstance().resetDefaultInput();
-        while (step !== undefined) {
-            step = await step.execute(operationId, this.metadata);
-        }
+        // Step: Review the values, each of them can still be changed
+        await reviewProject(operationId, this.metadata, () => getTargetFolder(this.metadata));
 
         // Step: Choose target folder
         this.outputUri = await specifyTargetFolder(this.metadata);
@@ -56,8 +62,33 @@ export class GenerateProjectHandler extends BaseHandler {
             throw new OperationCanceledError("Target folder not specified.");
         }
 
-        // Step: Download & Unzip
-        await downloadAndUnzip(this.downloadUrl, this.outputUri);
+        // Step: Generate as module of an enclosing multi-module build
+        const outputPath: string = this.outputUri.fsPath;
+        const projectType: ProjectType | undefined = await getProjectType(this.metadata.serviceUrl as string, this.projectType);
+        const parentPom: string | undefined = projectType?.tags?.build === "maven" ? await specifyParentPom(outputPath) : undefined;
+
+        // Step: Download, preview & Unzip
+        let entries: IArchiveEntry[] = await downloadProject(await getDownloadUrl(this.projectType, this.metadata));
+        if (parentPom !== undefined) {
+            entries = await toModuleEntries(entries, outputPath, parentPom, this.metadata.bootVersion);
+        }
+        let conflictPolicy: ConflictPolicy = getConflictPolicy();
+        if (await shouldPreview(this.outputUri)) {
+            const choice: PreviewChoice = await previewProject(entries, outputPath);
+            if (choice === PreviewChoice.CANCEL) {
+                throw new OperationCanceledError("Project generation canceled.");
+            } else if (choice === PreviewChoice.SKIP_EXISTING) {
+                conflictPolicy = ConflictPolicy.SKIP;
+            }
+        }
+        await coc.window.withProgress({ title: "Unzipping project archive..." }, async () => {
+            await extractArchive(entries, outputPath, conflictPolicy);
+        });
+        await updateDependenciesHistory(this.metadata.dependencies?.id.split(",").filter(Boolean) ?? []);
+        if (parentPom !== undefined) {
+            await addModule(coc.Uri.file(parentPom), toPosixPath(path.relative(path.dirname(parentPom), outputPath)));
+        }
+        await runPostGenerateHooks(outputPath, this.metadata);
 
         // Open project either is the same workspace or new workspace
         const hasOpenFolder = coc.workspace.workspaceFolders !== undefined || coc.workspace.root !== undefined;
@@ -75,27 +106,74 @@ export class GenerateProjectHandler extends BaseHandler {
             await focusCurrentResource(this.outputUri);
         }
     }
+}
+
+/**
+ * Ask for the values of the project, starting with the preset.
+ */
+export async function runWizardSteps(operationId: string, metadata: IProjectMetadata): Promise<void> {
+    let step: IStep | undefined = SpecifyPresetStep.getInstance();
+
+    SpecifyArtifactIdStep.getInstance().resetDefaultInput();
+    SpecifyGroupIdStep.getInstance().resetDefaultInput();
+    SpecifyPackageNameStep.getInstance().resetDefaultInput();
+    while (step !== undefined) {
+        step = await step.execute(operationId, metadata);
+    }
+}
+
+/**
+ * @param action path of the endpoint to call, defaults to the action of the project type.
+ */
+export async function getDownloadUrl(projectType: string, metadata: IProjectMetadata, action?: string): Promise<string> {
+    const params: Array<[string, string | undefined]> = [
+        ["type", projectType],
+        ["language", metadata.language],
+        ["javaVersion", metadata.javaVersion],
+        ["groupId", metadata.groupId],
+        ["artifactId", metadata.artifactId],
+        ["name", metadata.name || metadata.artifactId],
+        ["description", metadata.description],
+        ["version", metadata.version],
+        ["packageName", metadata.packageName],
+        ["packaging", metadata.packaging],
+        ["bootVersion", metadata.bootVersion],
+        ["dependencies", metadata.dependencies?.id],
+        ...Object.entries(metadata.customAttributes ?? {})
+    ];
+
+    const serviceUrl: string = metadata.serviceUrl as string;
+    const targetUrl = new URL(serviceUrl);
+    targetUrl.pathname = action ?? (await getProjectType(serviceUrl, projectType))?.action ?? DEFAULT_ACTION;
+    // values not specified are left to the defaults of the service
+    targetUrl.search = `?${params
+        .filter(([, value]) => value !== undefined)
+        .map(([key, value]) => `${key}=${encodeURIComponent(value as string)}`)
+        .join("&")}`;
+    return targetUrl.toString();
+}
+
+async function getProjectType(serviceUrl: string, id: string): Promise<ProjectType | undefined> {
+    const metadata: Metadata = await serviceManager.getMetadata(serviceUrl);
+    return metadata.type.values.find((type) => type.id === id);
+}
 
-    private get downloadUrl(): string {
-        const params: string[] = [
-            `type=${this.projectType}`,
-            `language=${this.metadata.language}`,
-            `javaVersion=${this.metadata.javaVersion}`,
-            `groupId=${this.metadata.groupId}`,
-            `artifactId=${this.metadata.artifactId}`,
-            `packageName=${this.metadata.packageName}`,
-            `name=${this.metadata.artifactId}`,
-            `packaging=${this.metadata.packaging}`,
-            `bootVersion=${this.metadata.bootVersion}`,
-            `dependencies=${this.metadata.dependencies?.id}`
-        ];
-
-        const serviceUrl: string = this.metadata.serviceUrl as string;
-        const targetUrl = new URL(serviceUrl);
-        targetUrl.pathname = "/starter.zip";
-        targetUrl.search = `?${params.join("&")}`;
-        return targetUrl.toString();
+/**
+ * The folder the project is generated into, unless it already exists and another folder is chosen.
+ */
+function getTargetFolder(metadata: IProjectMetadata): string {
+    const useArtifactId: boolean = metadata.parentFolder === ParentFolder.ARTIFACT_ID;
+    const targetFolder: string = metadata.defaults.targetFolder || getWorkspaceFolder();
+    if (useArtifactId) {
+        return path.join(`${targetFolder}/${metadata.artifactId}`);
     }
+    return targetFolder;
+}
+
+// the first workspace folder, or the working directory of vim when no folder is open
+function getWorkspaceFolder(): string {
+    const workspaceFolder: string | undefined = coc.workspace.workspaceFolders?.[0]?.uri;
+    return workspaceFolder ? coc.Uri.parse(workspaceFolder).fsPath : coc.workspace.cwd;
 }
 
 async function specifyTargetFolder(metadata: IProjectMetadata): Promise<coc.Uri | undefined> {
@@ -106,14 +184,10 @@ async function specifyTargetFolder(metadata: IProjectMetadata): Promise<coc.Uri
     const useArtifactId: boolean = metadata.parentFolder === ParentFolder.ARTIFACT_ID;
 
     if (!metadata.defaults.targetFolder) {
-        const workspaceFolderPath: string = coc.workspace.workspaceFolders?.[0]?.uri;
-        metadata.defaults.targetFolder = coc.Uri.parse(workspaceFolderPath).fsPath;
+        metadata.defaults.targetFolder = getWorkspaceFolder();
     }
 
-    let outputUri: string = metadata.defaults.targetFolder;
-    if (useArtifactId !== undefined) {
-        outputUri = path.join(`${outputUri}/${metadata.artifactId}`);
-    }
+    let outputUri: string = getTargetFolder(metadata);
 
     const MESSAGE_EXISTING_FOLDER: string = `A folder [${outputUri}] already exists in the selected folder.`;
     const MESSAGE_FOLDER_NOT_EMPTY: string = `The folder [${outputUri}] is not empty. Existing files with same names will be overwritten.`;
@@ -144,16 +218,101 @@ async function specifyTargetFolder(metadata: IProjectMetadata): Promise<coc.Uri
     return coc.Uri.parse(outputUri);
 }
 
-async function downloadAndUnzip(targetUrl: string, targetFolder: coc.Uri): Promise<void> {
-    await coc.window.withProgress({ title: "Downloading & unzipping..." }, async (progress: coc.Progress<{ message?: string }>) => {
-        let filepath: string;
+export async function downloadProject(targetUrl: string): Promise<IArchiveEntry[]> {
+    return await coc.window.withProgress({ title: "Downloading project..." }, async (progress: coc.Progress<{ message?: string }>) => {
         progress.report({ message: "Downloading project package..." });
-        filepath = await downloadFile(targetUrl);
-        progress.report({ message: "Unzipping project archive..." });
-        return await extract.default(filepath, { dir: targetFolder.fsPath });
+        const filepath: string = await downloadFile(targetUrl);
+        const pathname: string = new URL(targetUrl).pathname;
+        if (!pathname.endsWith(".zip")) {
+            // types generating only the build file download the file itself
+            return [{ path: path.basename(pathname), isDirectory: false, content: await fse.readFile(filepath) }];
+        }
+        progress.report({ message: "Reading project archive..." });
+        return await readArchive(filepath);
     });
 }
 
+export async function downloadAndUnzip(targetUrl: string, targetFolder: coc.Uri): Promise<void> {
+    const entries: IArchiveEntry[] = await downloadProject(targetUrl);
+    await coc.window.withProgress({ title: "Unzipping project archive..." }, async () => {
+        await extractArchive(entries, targetFolder.fsPath, getConflictPolicy());
+    });
+}
+
+function getConflictPolicy(): ConflictPolicy {
+    return coc.workspace.getConfiguration("spring.initializr").get<ConflictPolicy>("conflictPolicy", ConflictPolicy.OVERWRITE);
+}
+
+/**
+ * Offer to generate the project as a module when the target folder sits under the pom of a multi-module build.
+ * @returns path of the pom of the build, or undefined to generate a standalone project.
+ */
+async function specifyParentPom(targetFolder: string): Promise<string | undefined> {
+    const OPTION_MODULE: string = "Generate as module";
+    const OPTION_STANDALONE: string = "Generate standalone project";
+    const parentPom: string | undefined = await findAggregatorPom(path.dirname(targetFolder));
+    if (parentPom === undefined) {
+        return undefined;
+    }
+    const choice: string | undefined = await coc.window.showQuickPick([OPTION_MODULE, OPTION_STANDALONE], {
+        placeholder: `The target folder is part of the multi-module build ${parentPom}.`
+    });
+    if (choice === undefined) {
+        throw new OperationCanceledError("Project generation canceled.");
+    }
+    return choice === OPTION_MODULE ? parentPom : undefined;
+}
+
+/**
+ * Search the folder and its ancestors for the closest pom, which is only returned when it aggregates modules.
+ */
+async function findAggregatorPom(folder: string): Promise<string | undefined> {
+    const pomPath: string = path.join(folder, "pom.xml");
+    if (await isFile(pomPath)) {
+        const { project: projectNode } = await readXmlContent(await coc.workspace.readFile(coc.Uri.file(pomPath).toString()));
+        return projectNode?.packaging?.[0] === "pom" ? pomPath : undefined;
+    }
+    const parentFolder: string = path.dirname(folder);
+    return parentFolder !== folder ? await findAggregatorPom(parentFolder) : undefined;
+}
+
+/**
+ * The module inherits from the pom of the build and uses the maven wrapper of the build.
+ */
+async function toModuleEntries(
+    entries: IArchiveEntry[],
+    moduleFolder: string,
+    parentPom: string,
+    bootVersion?: string
+): Promise<IArchiveEntry[]> {
+    const parentText: string = await coc.workspace.readFile(coc.Uri.file(parentPom).toString());
+    const relativePath: string = toPosixPath(path.relative(moduleFolder, parentPom));
+    const bootManaged: boolean = (await searchForBootParentPom(coc.Uri.file(parentPom))) !== undefined;
+    return entries
+        .filter((entry) => !MAVEN_WRAPPER_ENTRIES.some((name) => entry.path === name || entry.path.startsWith(`${name}/`)))
+        .map((entry) => {
+            if (entry.path !== "pom.xml") {
+                return entry;
+            }
+            const pom: string = toModulePom(entry.content.toString(), parentText, relativePath, bootManaged ? undefined : bootVersion);
+            return { ...entry, content: Buffer.from(pom) };
+        });
+}
+
+function toPosixPath(p: string): string {
+    return p.split(path.sep).join("/");
+}
+
+async function shouldPreview(targetFolder: coc.Uri): Promise<boolean> {
+    const preview = coc.workspace
+        .getConfiguration("spring.initializr")
+        .get<ProjectPreview>("previewProject", ProjectPreview.NON_EMPTY_FOLDER);
+    if (preview === ProjectPreview.NON_EMPTY_FOLDER) {
+        return (await fse.pathExists(targetFolder.fsPath)) && (await fse.readdir(targetFolder.fsPath)).length > 0;
+    }
+    return preview === ProjectPreview.ALWAYS;
+}
+
 async function specifyOpenMethod(hasOpenFolder: boolean, projectLocation: coc.Uri): Promise<string> {
     let openMethod = coc.workspace.getConfiguration("spring.initializr").get<string>("defaultOpenProjectMethod", OPEN_IN_NEW_WORKSPACE);
     if (openMethod !== CANCEL_OPEN_WORKSPACE && openMethod !== OPEN_IN_NEW_WORKSPACE) {
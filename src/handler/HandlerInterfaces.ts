@@ -16,28 +16,73 @@ export interface IProjectMetadata {
     javaVersion?: string;
     groupId?: string;
     artifactId?: string;
+    name?: string;
+    description?: string;
+    version?: string;
     packageName?: string;
     packaging?: string;
     bootVersion?: string;
     dependencies?: IDependenciesItem;
+    // values of custom attributes of the service by attribute id, multiple values are separated by ","
+    customAttributes?: { [id: string]: string };
     pickSteps: IStep[];
     defaults: IDefaultProjectData;
     parentFolder?: ParentFolder;
+    // set when the defaults come from a preset, steps fully answered by the preset are then skipped
+    presetName?: string;
+    // set while a value is edited from the review, steps then prompt even for values with defaults
+    reviewing?: boolean;
 }
 
 export interface IDefaultProjectData {
+    serviceUrl?: string;
+    bootVersion?: string;
+    language?: string;
+    javaVersion?: string;
+    groupId?: string;
+    artifactId?: string;
+    name?: string;
+    description?: string;
+    version?: string;
+    packaging?: string;
+    dependencies?: string[];
+    targetFolder?: string;
+}
+
+export interface IProjectPreset extends IDefaultProjectData {
+    name: string;
+    // name of the project, "name" being the one of the preset
+    projectName?: string;
+}
+
+/**
+ * Describes a project to generate without any prompts, values not specified fall back to the defaults of the service.
+ */
+export interface IProjectSpec {
+    serviceUrl?: string;
+    // tslint:disable-next-line:no-reserved-keywords
+    type?: string;
+    bootVersion?: string;
     language?: string;
     javaVersion?: string;
     groupId?: string;
     artifactId?: string;
+    name?: string;
+    description?: string;
+    version?: string;
+    packageName?: string;
     packaging?: string;
     dependencies?: string[];
     targetFolder?: string;
+    // generate into the target folder even when it is not empty
+    overwrite?: boolean;
 }
 
 export interface IHandlerItem<T extends Identifiable> extends QuickPickItem {
     label: string;
     value?: T;
+    // set on the items leaving the step instead of specifying a value
+    navigation?: Navigation;
 }
 
 export interface IPickMetadata<T extends Identifiable> {
@@ -57,7 +102,39 @@ export interface IInputMetaData {
     defaultValue: string;
 }
 
+export enum Navigation {
+    BACK = "back",
+    CANCEL = "cancel"
+}
+
 export enum ParentFolder {
     ARTIFACT_ID = "artifactId",
     NONE = "none"
 }
+
+export enum ProjectPreview {
+    ALWAYS = "always",
+    NON_EMPTY_FOLDER = "nonEmptyFolder",
+    NEVER = "never"
+}
+
+export enum PostGenerateHookType {
+    GIT_INIT = "gitInit",
+    COPY = "copy",
+    COMMAND = "command"
+}
+
+/**
+ * An action run in the folder of a newly generated project, configured by `spring.initializr.postGenerate`.
+ */
+export interface IPostGenerateHook {
+    // tslint:disable-next-line:no-reserved-keywords
+    type: PostGenerateHookType;
+    // gitInit: message of the initial commit, no commit is made when empty
+    commitMessage?: string;
+    // copy: local folder whose content is copied, to the sub-folder "to" of the project if specified
+    from?: string;
+    to?: string;
+    // command: shell command, ${artifactId}, ${groupId} and ${packageName} are substituted
+    command?: string;
+}
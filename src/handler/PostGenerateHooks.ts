@@ -0,0 +1,161 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license.
+
+import * as cp from "child_process";
+import * as coc from "coc.nvim";
+import * as fse from "fs-extra";
+import * as os from "os";
+import * as path from "path";
+import { IPostGenerateHook, IProjectMetadata, PostGenerateHookType } from "./HandlerInterfaces";
+
+const DEFAULT_COMMIT_MESSAGE: string = "Initial commit";
+
+let outputChannel: coc.OutputChannel | undefined;
+
+/**
+ * Run the hooks configured by `spring.initializr.postGenerate` in the folder of the generated project. Hooks run one
+ * after another and stop at the first failure, which is reported while the generated project is kept.
+ */
+export async function runPostGenerateHooks(projectFolder: string, metadata: IProjectMetadata): Promise<void> {
+    const hooks: IPostGenerateHook[] = coc.workspace.getConfiguration("spring.initializr").get<IPostGenerateHook[]>("postGenerate", []);
+    if (hooks.length === 0) {
+        return;
+    }
+    const channel: coc.OutputChannel = getOutputChannel();
+    await coc.window.withProgress({ title: "Running post-generate hooks..." }, async (progress: coc.Progress<{ message?: string }>) => {
+        for (const [i, hook] of hooks.entries()) {
+            const description: string = describeHook(hook);
+            progress.report({ message: description });
+            channel.appendLine(`[${i + 1}/${hooks.length}] ${description}`);
+            try {
+                await runHook(hook, projectFolder, metadata, channel);
+            } catch (error) {
+                channel.appendLine(`Failed: ${(error as Error).message}`);
+                channel.show(true);
+                const skipped: number = hooks.length - i - 1;
+                coc.window.showErrorMessage(
+                    `Post-generate hook "${description}" failed, the project is kept at ${projectFolder}.` +
+                        (skipped > 0 ? ` ${skipped} remaining hook(s) skipped.` : "")
+                );
+                return;
+            }
+        }
+    });
+}
+
+async function runHook(
+    hook: IPostGenerateHook,
+    projectFolder: string,
+    metadata: IProjectMetadata,
+    channel: coc.OutputChannel
+): Promise<void> {
+    switch (hook.type) {
+        case PostGenerateHookType.GIT_INIT:
+            await spawn("git", ["init"], projectFolder, channel);
+            if (hook.commitMessage !== "") {
+                await spawn("git", ["add", "-A"], projectFolder, channel);
+                const message: string = substitute(hook.commitMessage ?? DEFAULT_COMMIT_MESSAGE, metadata);
+                await spawn("git", ["commit", "-m", message], projectFolder, channel);
+            }
+            break;
+        case PostGenerateHookType.COPY: {
+            if (!hook.from) {
+                throw new Error(`"from" is not specified.`);
+            }
+            const from: string = expandHome(substitute(hook.from, metadata));
+            const to: string = path.resolve(projectFolder, substitute(hook.to ?? ".", metadata));
+            await fse.copy(from, to, { overwrite: true });
+            channel.appendLine(`Copied ${from} to ${to}`);
+            break;
+        }
+        case PostGenerateHookType.COMMAND:
+            if (!hook.command) {
+                throw new Error(`"command" is not specified.`);
+            }
+            // values are quoted as they come from the user, and also passed as environment variables
+            await spawn(substitute(hook.command, metadata, quoteShellArgument), [], projectFolder, channel, true, getHookEnv(metadata));
+            break;
+        default:
+            throw new Error(`Unknown hook type "${hook.type}".`);
+    }
+}
+
+function describeHook(hook: IPostGenerateHook): string {
+    switch (hook.type) {
+        case PostGenerateHookType.GIT_INIT:
+            return hook.commitMessage === "" ? "git init" : "git init and initial commit";
+        case PostGenerateHookType.COPY:
+            return `copy ${hook.from}`;
+        case PostGenerateHookType.COMMAND:
+            return `${hook.command}`;
+        default:
+            return `${hook.type}`;
+    }
+}
+
+/**
+ * Run the command, streaming its output to the channel. Non-zero exit codes are rejected.
+ */
+async function spawn(
+    command: string,
+    args: string[],
+    cwd: string,
+    channel: coc.OutputChannel,
+    shell?: boolean,
+    env?: NodeJS.ProcessEnv
+): Promise<void> {
+    return new Promise<void>((resolve: () => void, reject: (e: Error) => void): void => {
+        const child: cp.ChildProcess = cp.spawn(command, args, { cwd, shell, env: env && { ...process.env, ...env } });
+        child.stdout?.on("data", (chunk: Buffer) => channel.append(chunk.toString()));
+        child.stderr?.on("data", (chunk: Buffer) => channel.append(chunk.toString()));
+        child.on("error", reject);
+        child.on("close", (code: number | null) => {
+            if (code === 0) {
+                resolve();
+            } else {
+                reject(new Error(`"${[command, ...args].join(" ")}" exited with code ${code}.`));
+            }
+        });
+    });
+}
+
+function substitute(text: string, metadata: IProjectMetadata, quote: (value: string) => string = (value: string) => value): string {
+    const variables: { [name: string]: string | undefined } = {
+        artifactId: metadata.artifactId,
+        groupId: metadata.groupId,
+        packageName: metadata.packageName
+    };
+    return text.replace(/\$\{(\w+)\}/g, (match: string, name: string) => {
+        const value: string | undefined = variables[name];
+        return value === undefined ? match : quote(value);
+    });
+}
+
+function getHookEnv(metadata: IProjectMetadata): NodeJS.ProcessEnv {
+    return {
+        ARTIFACT_ID: metadata.artifactId,
+        GROUP_ID: metadata.groupId,
+        PACKAGE_NAME: metadata.packageName
+    };
+}
+
+/**
+ * Quote the value as a single argument of the shell spawn runs commands with, i.e. cmd.exe on Windows and sh elsewhere.
+ */
+function quoteShellArgument(value: string): string {
+    if (process.platform === "win32") {
+        return `"${value.replace(/"/g, '""')}"`;
+    }
+    return `'${value.replace(/'/g, "'\\''")}'`;
+}
+
+function expandHome(p: string): string {
+    return p === "~" || p.startsWith("~/") ? path.join(os.homedir(), p.substring(1)) : p;
+}
+
+function getOutputChannel(): coc.OutputChannel {
+    if (outputChannel === undefined) {
+        outputChannel = coc.window.createOutputChannel("Spring Initializr");
+    }
+    return outputChannel;
+}
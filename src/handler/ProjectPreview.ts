@@ -0,0 +1,41 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license.
+
+import * as coc from "coc.nvim";
+import { EntryStatus, getEntryStatus, IArchiveEntry } from "../Utils/archive";
+import { withScratchBuffer } from "../Utils/scratchBuffer";
+
+export enum PreviewChoice {
+    PROCEED = "Proceed",
+    SKIP_EXISTING = "Skip existing files",
+    CANCEL = "Cancel"
+}
+
+/**
+ * List the files of the project archive in a scratch buffer, each marked with what generating the project would do
+ * to the target folder, and ask how to continue.
+ */
+export async function previewProject(entries: IArchiveEntry[], targetFolder: string): Promise<PreviewChoice> {
+    const files: IArchiveEntry[] = entries.filter((entry) => !entry.isDirectory);
+    const statuses: EntryStatus[] = await Promise.all(files.map((entry) => getEntryStatus(entry, targetFolder)));
+    const count = (status: EntryStatus) => statuses.filter((s) => s === status).length;
+    const width: number = Math.max(...Object.values(EntryStatus).map((status) => status.length));
+    const lines: string[] = [
+        `Generating into ${targetFolder}`,
+        `${count(EntryStatus.CREATE)} to create, ${count(EntryStatus.OVERWRITE)} to overwrite, ${count(EntryStatus.IDENTICAL)} identical`,
+        "",
+        ...files.map((entry, i) => `${statuses[i].padEnd(width)}  ${entry.path}`)
+    ];
+
+    return await withScratchBuffer("Spring Initializr Preview", lines, async () => {
+        const choices: PreviewChoice[] = [
+            PreviewChoice.PROCEED,
+            ...(count(EntryStatus.OVERWRITE) > 0 ? [PreviewChoice.SKIP_EXISTING] : []),
+            PreviewChoice.CANCEL
+        ];
+        const choice: string | undefined = await coc.window.showQuickPick(choices, {
+            placeholder: "Generate the project into the target folder?"
+        });
+        return (choice as PreviewChoice | undefined) ?? PreviewChoice.CANCEL;
+    });
+}
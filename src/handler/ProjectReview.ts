@@ -0,0 +1,148 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license.
+
+import * as coc from "coc.nvim";
+import * as _ from "lodash";
+import { OperationCanceledError } from "../Errors";
+import { ICustomAttribute, IDependency, serviceManager } from "../model";
+import { Identifiable, Metadata } from "../model/Metadata";
+import { IProjectMetadata, IStep } from "./HandlerInterfaces";
+import { SpecifyArtifactIdStep } from "./SpecifyArtifactIdStep";
+import { SpecifyBootVersionStep } from "./SpecifyBootVersionStep";
+import { SpecifyCustomAttributeStep } from "./SpecifyCustomAttributeStep";
+import { SpecifyDependenciesStep } from "./SpecifyDependenciesStep";
+import { SpecifyDescriptionStep } from "./SpecifyDescriptionStep";
+import { SpecifyGroupIdStep } from "./SpecifyGroupIdStep";
+import { SpecifyJavaVersionStep } from "./SpecifyJavaVersionStep";
+import { SpecifyLanguageStep } from "./SpecifyLanguageStep";
+import { SpecifyNameStep } from "./SpecifyNameStep";
+import { SpecifyPackageNameStep } from "./SpecifyPackageNameStep";
+import { SpecifyPackagingStep } from "./SpecifyPackagingStep";
+import { SpecifyServiceUrlStep } from "./SpecifyServiceUrlStep";
+import { SpecifyVersionStep } from "./SpecifyVersionStep";
+
+enum ReviewAction {
+    GENERATE = "generate",
+    EDIT_TARGET_FOLDER = "editTargetFolder",
+    CANCEL = "cancel"
+}
+
+interface IReviewItem extends coc.QuickPickItem {
+    // step asking for the value of the row again
+    step?: IStep;
+    action?: ReviewAction;
+}
+
+/**
+ * List every value of the project until "Generate" is selected. Selecting a value runs its step again, with the
+ * current value offered first, and comes back to the list afterwards.
+ * @param getTargetFolder the folder the project would be generated into, changing with the artifact id.
+ */
+export async function reviewProject(operationId: string, metadata: IProjectMetadata, getTargetFolder: () => string): Promise<void> {
+    while (true) {
+        const selected: IReviewItem | undefined = await coc.window.showQuickPick(await getReviewItems(metadata, getTargetFolder()), {
+            title: "Spring Initializr: Review project",
+            placeholder: "Select a value to change it, or generate the project."
+        });
+        if (selected === undefined || selected.action === ReviewAction.CANCEL) {
+            throw new OperationCanceledError("Project generation canceled.");
+        } else if (selected.action === ReviewAction.GENERATE) {
+            return;
+        } else if (selected.action === ReviewAction.EDIT_TARGET_FOLDER) {
+            const input: string | undefined = await coc.window.requestInput(
+                "Input the folder to generate the project in",
+                metadata.defaults.targetFolder ?? ""
+            );
+            if (input) {
+                metadata.defaults.targetFolder = input;
+            }
+        } else if (selected.step !== undefined) {
+            const { serviceUrl, bootVersion } = metadata;
+            await runReviewStep(operationId, metadata, selected.step);
+            if (metadata.serviceUrl !== serviceUrl) {
+                await revalidateServiceValues(operationId, metadata);
+            }
+            if (metadata.serviceUrl !== serviceUrl || metadata.bootVersion !== bootVersion) {
+                await revalidateDependencies(metadata);
+            }
+        }
+    }
+}
+
+async function runReviewStep(operationId: string, metadata: IProjectMetadata, step: IStep): Promise<void> {
+    // going back from the step returns to the review as well
+    metadata.reviewing = true;
+    try {
+        await step.execute(operationId, metadata);
+    } finally {
+        metadata.reviewing = false;
+    }
+}
+
+/**
+ * Ask again for the values the new service does not offer, and drop custom attributes it does not define.
+ */
+async function revalidateServiceValues(operationId: string, metadata: IProjectMetadata): Promise<void> {
+    const serviceMetadata: Metadata = await serviceManager.getMetadata(metadata.serviceUrl as string);
+    const isOffered = (value: string | undefined, values: Identifiable[]) =>
+        value !== undefined && values.some((v) => v.id.toLowerCase() === value.toLowerCase());
+    const checks: Array<[string | undefined, Identifiable[], IStep]> = [
+        [metadata.bootVersion, serviceMetadata.bootVersion.values, SpecifyBootVersionStep.getInstance()],
+        [metadata.language, serviceMetadata.language.values, SpecifyLanguageStep.getInstance()],
+        [metadata.javaVersion, serviceMetadata.javaVersion.values, SpecifyJavaVersionStep.getInstance()],
+        [metadata.packaging, serviceMetadata.packaging.values, SpecifyPackagingStep.getInstance()]
+    ];
+    for (const [value, values, step] of checks) {
+        if (!isOffered(value, values)) {
+            await runReviewStep(operationId, metadata, step);
+        }
+    }
+
+    const attributeIds: string[] = (await serviceManager.getCustomAttributes(metadata.serviceUrl as string)).map((attr) => attr.id);
+    metadata.customAttributes = _.pickBy(metadata.customAttributes ?? {}, (_value, id) => attributeIds.includes(id));
+}
+
+/**
+ * Drop the dependencies which are not available for the Spring Boot version of the service.
+ */
+async function revalidateDependencies(metadata: IProjectMetadata): Promise<void> {
+    if (!metadata.serviceUrl || !metadata.bootVersion || !metadata.dependencies) {
+        return;
+    }
+    const available: IDependency[] = await serviceManager.getAvailableDependencies(metadata.serviceUrl, metadata.bootVersion);
+    const ids: string[] = metadata.dependencies.id.split(",").filter(Boolean);
+    const removed: string[] = ids.filter((id) => !available.some((dep) => dep.id === id));
+    if (removed.length > 0) {
+        metadata.dependencies = { ...metadata.dependencies, id: ids.filter((id) => !removed.includes(id)).join(",") };
+        coc.window.showWarningMessage(`Removed dependencies not available for Spring Boot ${metadata.bootVersion}: ${removed.join(", ")}.`);
+    }
+}
+
+async function getReviewItems(metadata: IProjectMetadata, targetFolder: string): Promise<IReviewItem[]> {
+    const row = (name: string, value: string | undefined, step: IStep): IReviewItem => ({
+        label: `${name}: ${value || "-"}`,
+        step
+    });
+    const attributes: ICustomAttribute[] = metadata.serviceUrl ? await serviceManager.getCustomAttributes(metadata.serviceUrl) : [];
+    const dependencies: string = (metadata.dependencies?.id ?? "").split(",").filter(Boolean).join(", ");
+    return [
+        { label: "Generate", description: `Generate the project into ${targetFolder}`, action: ReviewAction.GENERATE },
+        row("Service URL", metadata.serviceUrl, SpecifyServiceUrlStep.getInstance()),
+        row("Spring Boot version", metadata.bootVersion, SpecifyBootVersionStep.getInstance()),
+        row("Language", metadata.language, SpecifyLanguageStep.getInstance()),
+        row("Java version", metadata.javaVersion, SpecifyJavaVersionStep.getInstance()),
+        row("Group Id", metadata.groupId, SpecifyGroupIdStep.getInstance()),
+        row("Artifact Id", metadata.artifactId, SpecifyArtifactIdStep.getInstance()),
+        row("Name", metadata.name, SpecifyNameStep.getInstance()),
+        row("Description", metadata.description, SpecifyDescriptionStep.getInstance()),
+        row("Version", metadata.version, SpecifyVersionStep.getInstance()),
+        row("Package name", metadata.packageName, SpecifyPackageNameStep.getInstance()),
+        row("Packaging", metadata.packaging, SpecifyPackagingStep.getInstance()),
+        ...attributes.map((attribute, i) =>
+            row(attribute.id, metadata.customAttributes?.[attribute.id], SpecifyCustomAttributeStep.getInstance(i))
+        ),
+        row("Dependencies", dependencies || "None", SpecifyDependenciesStep.getInstance()),
+        { label: `Target folder: ${targetFolder}`, action: ReviewAction.EDIT_TARGET_FOLDER },
+        { label: "Cancel", description: "Stop generating the project", action: ReviewAction.CANCEL }
+    ];
+}
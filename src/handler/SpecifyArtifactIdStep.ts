@@ -3,7 +3,7 @@
 
 import { workspace } from "coc.nvim";
 import { IInputMetaData, IProjectMetadata, IStep } from "./HandlerInterfaces";
-import { SpecifyPackageNameStep } from "./SpecifyPackageNameStep";
+import { SpecifyNameStep } from "./SpecifyNameStep";
 import { createInputBox } from "./utils";
 
 export class SpecifyArtifactIdStep implements IStep {
@@ -32,7 +32,7 @@ export class SpecifyArtifactIdStep implements IStep {
     }
 
     public getNextStep(): IStep | undefined {
-        return SpecifyPackageNameStep.getInstance();
+        return SpecifyNameStep.getInstance();
     }
 
     public async execute(operationId: string, projectMetadata: IProjectMetadata): Promise<IStep | undefined> {
@@ -49,7 +49,8 @@ export class SpecifyArtifactIdStep implements IStep {
             pickStep: SpecifyArtifactIdStep.getInstance(),
             placeholder: "e.g. demo",
             prompt: "Input Artifact Id for your project.",
-            defaultValue: projectMetadata.defaults.artifactId || SpecifyArtifactIdStep.getInstance().defaultInput || ""
+            defaultValue:
+                projectMetadata.artifactId || projectMetadata.defaults.artifactId || SpecifyArtifactIdStep.getInstance().defaultInput || ""
         };
         return await createInputBox(inputMetaData);
     }
@@ -1,8 +1,9 @@
 // Copyright (c) Microsoft Corporation. All rights reserved.
 // Licensed under the MIT license.
 
+import { window } from "coc.nvim";
 import { serviceManager } from "../model";
-import { BootVersion, MatadataType } from "../model/Metadata";
+import { BootVersion, MatadataType, Metadata } from "../model/Metadata";
 import { IPickMetadata, IProjectMetadata, IStep } from "./HandlerInterfaces";
 import { SpecifyLanguageStep } from "./SpecifyLanguageStep";
 import { createPickBox } from "./utils";
@@ -26,6 +27,17 @@ export class SpecifyBootVersionStep implements IStep {
     }
 
     private async specifyBootVersion(projectMetadata: IProjectMetadata): Promise<boolean> {
+        const bootVersion: string | undefined = projectMetadata.defaults.bootVersion;
+        if (bootVersion && !projectMetadata.reviewing) {
+            // versions of presets get stale, the service only offers the latest ones
+            if (await this.isOffered(projectMetadata.serviceUrl, bootVersion)) {
+                projectMetadata.bootVersion = bootVersion;
+                return true;
+            }
+            window.showWarningMessage(
+                `Spring Boot ${bootVersion} is not offered by ${projectMetadata.serviceUrl}, specify another version.`
+            );
+        }
         const pickMetaData: IPickMetadata<BootVersion> = {
             metadata: projectMetadata,
             title: "Spring Initializr: Specify Spring Boot version",
@@ -35,4 +47,12 @@ export class SpecifyBootVersionStep implements IStep {
         };
         return await createPickBox(pickMetaData);
     }
+
+    private async isOffered(serviceUrl: string | undefined, bootVersion: string): Promise<boolean> {
+        if (!serviceUrl) {
+            return true;
+        }
+        const metadata: Metadata = await serviceManager.getMetadata(serviceUrl);
+        return metadata.bootVersion.values.some((v) => v.id.toLowerCase() === bootVersion.toLowerCase());
+    }
 }
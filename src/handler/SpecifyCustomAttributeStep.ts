@@ -0,0 +1,125 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license.
+
+import { QuickPickItem, window } from "coc.nvim";
+import { OperationCanceledError } from "../Errors";
+import { AttributeType, ICustomAttribute, IValue, serviceManager } from "../model";
+import { IHandlerItem, IInputMetaData, IPickMetadata, IProjectMetadata, IStep, Navigation } from "./HandlerInterfaces";
+import { SpecifyDependenciesStep } from "./SpecifyDependenciesStep";
+import { createInputBox, createPickBox, getNavigationItems } from "./utils";
+
+/**
+ * Asks for the value of a custom attribute of the service, one step per attribute. The step for the index past the
+ * last attribute continues with the dependencies.
+ */
+export class SpecifyCustomAttributeStep implements IStep {
+    public static getInstance(index: number = 0): SpecifyCustomAttributeStep {
+        let step: SpecifyCustomAttributeStep | undefined = SpecifyCustomAttributeStep.steps.get(index);
+        if (step === undefined) {
+            step = new SpecifyCustomAttributeStep(index);
+            SpecifyCustomAttributeStep.steps.set(index, step);
+        }
+        return step;
+    }
+
+    private static readonly steps: Map<number, SpecifyCustomAttributeStep> = new Map();
+
+    // the attribute asked for by the current execution of the step
+    public attribute: ICustomAttribute | undefined;
+
+    private constructor(private readonly index: number) {}
+
+    public getNextStep(): IStep | undefined {
+        return SpecifyCustomAttributeStep.getInstance(this.index + 1);
+    }
+
+    public async execute(_: string, projectMetadata: IProjectMetadata): Promise<IStep | undefined> {
+        const attributes: ICustomAttribute[] = projectMetadata.serviceUrl
+            ? await serviceManager.getCustomAttributes(projectMetadata.serviceUrl)
+            : [];
+        this.attribute = attributes[this.index];
+        if (this.attribute === undefined) {
+            return SpecifyDependenciesStep.getInstance();
+        }
+        if (!(await this.specifyAttribute(this.attribute, projectMetadata))) {
+            return projectMetadata.pickSteps.pop();
+        }
+        return this.getNextStep();
+    }
+
+    public setValue(projectMetadata: IProjectMetadata, value: string | undefined): void {
+        if (this.attribute !== undefined && value !== undefined) {
+            projectMetadata.customAttributes = { ...projectMetadata.customAttributes, [this.attribute.id]: value };
+        }
+    }
+
+    private async specifyAttribute(attribute: ICustomAttribute, projectMetadata: IProjectMetadata): Promise<boolean> {
+        const defaultValue: string | undefined = projectMetadata.customAttributes?.[attribute.id] ?? attribute.default?.toString();
+        if (attribute.type === AttributeType.text) {
+            const inputMetaData: IInputMetaData = {
+                metadata: projectMetadata,
+                title: `Spring Initializr: Input ${attribute.id}`,
+                pickStep: this,
+                placeholder: attribute.default ? `e.g. ${attribute.default}` : "",
+                prompt: `Input ${attribute.id} for your project.`,
+                defaultValue: defaultValue ?? ""
+            };
+            return await createInputBox(inputMetaData);
+        } else if (attribute.type === AttributeType.single) {
+            const values: IValue[] = attribute.values ?? [];
+            const sortedValues: IValue[] = [...values.filter((v) => v.id === defaultValue), ...values.filter((v) => v.id !== defaultValue)];
+            const pickMetaData: IPickMetadata<IValue> = {
+                metadata: projectMetadata,
+                title: `Spring Initializr: Specify ${attribute.id}`,
+                pickStep: this,
+                placeholder: `Specify ${attribute.id}.`,
+                items: sortedValues.map((v) => ({ label: v.name, description: v.description, value: v }))
+            };
+            return await createPickBox(pickMetaData);
+        } else {
+            return await this.specifyMultipleValues(attribute, projectMetadata, defaultValue);
+        }
+    }
+
+    /**
+     * Values of hierarchical attributes are toggled one at a time like dependencies, until the selection is confirmed.
+     */
+    private async specifyMultipleValues(
+        attribute: ICustomAttribute,
+        projectMetadata: IProjectMetadata,
+        defaultValue: string | undefined
+    ): Promise<boolean> {
+        const values: IValue[] = (attribute.values ?? []).flatMap((v) => v.values ?? [v]);
+        let selectedIds: string[] = defaultValue ? defaultValue.split(",") : [];
+        let current: (QuickPickItem & { id?: string; navigation?: Navigation }) | undefined;
+        do {
+            const items: Array<IHandlerItem<IValue> & { id?: string }> = [
+                { label: `Selected ${selectedIds.length} value${selectedIds.length === 1 ? "" : "s"}` },
+                ...values.map((v) => ({
+                    label: selectedIds.includes(v.id) ? `(selected) ${v.name}` : v.name,
+                    description: v.description,
+                    id: v.id
+                })),
+                ...getNavigationItems(projectMetadata)
+            ];
+            current = await window.showQuickPick(items, {
+                matchOnDescription: true,
+                title: `Spring Initializr: Specify ${attribute.id}`,
+                placeholder: `Select values of ${attribute.id}.`
+            });
+            const id: string | undefined = current?.id;
+            if (id !== undefined) {
+                selectedIds = selectedIds.includes(id) ? selectedIds.filter((elem) => elem !== id) : [...selectedIds, id];
+            }
+        } while (current?.id !== undefined);
+
+        if (current?.navigation === Navigation.BACK) {
+            return false;
+        } else if (current === undefined || current.navigation === Navigation.CANCEL) {
+            throw new OperationCanceledError(`${attribute.id} not specified.`);
+        }
+        this.setValue(projectMetadata, selectedIds.join(","));
+        projectMetadata.pickSteps.push(this);
+        return true;
+    }
+}
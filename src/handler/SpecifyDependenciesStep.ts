@@ -3,7 +3,10 @@
 
 import { QuickPickItem, window } from "coc.nvim";
 import { DependencyManager, IDependenciesItem } from "../DependencyManager";
-import { IProjectMetadata, IStep } from "./HandlerInterfaces";
+import { OperationCanceledError } from "../Errors";
+import { IProjectMetadata, IStep, Navigation } from "./HandlerInterfaces";
+import { pickStarterDocs } from "./StarterDocsHandler";
+import { getNavigationItems } from "./utils";
 
 export class SpecifyDependenciesStep implements IStep {
     public static getInstance(): SpecifyDependenciesStep {
@@ -24,15 +27,21 @@ export class SpecifyDependenciesStep implements IStep {
     }
 
     private async specifyDependencies(projectMetadata: IProjectMetadata): Promise<boolean> {
+        if (projectMetadata.presetName && projectMetadata.defaults.dependencies?.length && !projectMetadata.reviewing) {
+            projectMetadata.dependencies = { itemType: "selection", id: projectMetadata.defaults.dependencies.join(",") };
+            return true;
+        }
         const dependencyManager = new DependencyManager(projectMetadata.bootVersion as string);
         let current: IDependenciesItem | undefined | null = null;
-        let result: boolean = false;
-        dependencyManager.selectedIds = projectMetadata.defaults.dependencies || [];
+        // the selection is kept when coming back to the step
+        dependencyManager.selectedIds = projectMetadata.dependencies
+            ? projectMetadata.dependencies.id.split(",").filter(Boolean)
+            : projectMetadata.defaults.dependencies || [];
         do {
-            const quickPickItems: Array<QuickPickItem & IDependenciesItem> = await dependencyManager.getQuickPickItems(
-                projectMetadata.serviceUrl as string,
-                { hasLastSelected: true }
-            );
+            const quickPickItems: Array<QuickPickItem & IDependenciesItem> = [
+                ...(await dependencyManager.getQuickPickItems(projectMetadata.serviceUrl as string, { hasLastSelected: true })),
+                ...getNavigationItems(projectMetadata).map((item) => ({ ...item, itemType: item.navigation, id: "" }))
+            ];
             current = await window.showQuickPick(quickPickItems, {
                 matchOnDescription: true,
                 title: "Spring Initializr: Specify dependencies",
@@ -40,14 +49,18 @@ export class SpecifyDependenciesStep implements IStep {
             });
             if (current?.itemType === "dependency") {
                 dependencyManager.toggleDependency(current.id);
+            } else if (current?.itemType === "docs") {
+                await pickStarterDocs(dependencyManager.dependencies, dependencyManager.bootVersion, dependencyManager.selectedIds);
             }
-        } while (current?.itemType === "dependency");
+        } while (current?.itemType === "dependency" || current?.itemType === "docs");
 
-        if (current !== undefined) {
-            projectMetadata.dependencies = current;
-            dependencyManager.updateLastUsedDependencies(current);
-            result = true;
+        if (current?.itemType === Navigation.BACK) {
+            return false;
+        } else if (current === undefined || current.itemType === Navigation.CANCEL) {
+            throw new OperationCanceledError("Dependencies not specified.");
         }
-        return result;
+        projectMetadata.dependencies = current;
+        projectMetadata.pickSteps.push(this);
+        return true;
     }
 }
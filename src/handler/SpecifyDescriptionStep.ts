@@ -0,0 +1,46 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license.
+
+import { workspace } from "coc.nvim";
+import { IInputMetaData, IProjectMetadata, IStep } from "./HandlerInterfaces";
+import { SpecifyVersionStep } from "./SpecifyVersionStep";
+import { createInputBox } from "./utils";
+
+export class SpecifyDescriptionStep implements IStep {
+    public static getInstance(): SpecifyDescriptionStep {
+        return SpecifyDescriptionStep.specifyDescriptionStep;
+    }
+
+    private static readonly specifyDescriptionStep: SpecifyDescriptionStep = new SpecifyDescriptionStep();
+
+    public getNextStep(): IStep | undefined {
+        return SpecifyVersionStep.getInstance();
+    }
+
+    public async execute(_: string, projectMetadata: IProjectMetadata): Promise<IStep | undefined> {
+        if (!(await this.specifyDescription(projectMetadata))) {
+            return projectMetadata.pickSteps.pop();
+        }
+        return this.getNextStep();
+    }
+
+    private async specifyDescription(projectMetadata: IProjectMetadata): Promise<boolean> {
+        if (projectMetadata.presetName && projectMetadata.defaults.description && !projectMetadata.reviewing) {
+            projectMetadata.description = projectMetadata.defaults.description;
+            return true;
+        }
+        const inputMetaData: IInputMetaData = {
+            metadata: projectMetadata,
+            title: "Spring Initializr: Input Description",
+            pickStep: SpecifyDescriptionStep.getInstance(),
+            placeholder: "e.g. Demo project for Spring Boot",
+            prompt: "Input Description for your project.",
+            defaultValue:
+                projectMetadata.description ||
+                projectMetadata.defaults.description ||
+                workspace.getConfiguration("spring.initializr").get<string>("defaultDescription") ||
+                ""
+        };
+        return await createInputBox(inputMetaData);
+    }
+}
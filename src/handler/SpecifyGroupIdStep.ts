@@ -43,13 +43,17 @@ export class SpecifyGroupIdStep implements IStep {
     }
 
     private async specifyGroupId(projectMetadata: IProjectMetadata): Promise<boolean> {
+        if (projectMetadata.presetName && projectMetadata.defaults.groupId && !projectMetadata.reviewing) {
+            projectMetadata.groupId = projectMetadata.defaults.groupId;
+            return true;
+        }
         const inputMetaData: IInputMetaData = {
             metadata: projectMetadata,
             title: "Spring Initializr: Input Group Id",
             pickStep: SpecifyGroupIdStep.getInstance(),
             placeholder: "e.g. com.example",
             prompt: "Input Group Id for your project.",
-            defaultValue: projectMetadata.defaults.groupId || SpecifyGroupIdStep.getInstance().defaultInput || ""
+            defaultValue: projectMetadata.groupId || projectMetadata.defaults.groupId || SpecifyGroupIdStep.getInstance().defaultInput || ""
         };
         return await createInputBox(inputMetaData);
     }
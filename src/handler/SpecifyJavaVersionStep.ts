@@ -5,7 +5,7 @@ import { workspace } from "coc.nvim";
 import { serviceManager } from "../model";
 import { JavaVersion, MatadataType } from "../model/Metadata";
 import { IPickMetadata, IProjectMetadata, IStep } from "./HandlerInterfaces";
-import { SpecifyDependenciesStep } from "./SpecifyDependenciesStep";
+import { SpecifyCustomAttributeStep } from "./SpecifyCustomAttributeStep";
 import { createPickBox } from "./utils";
 
 export class SpecifyJavaVersionStep implements IStep {
@@ -16,7 +16,7 @@ export class SpecifyJavaVersionStep implements IStep {
     private static readonly specifyJavaVersionStep: SpecifyJavaVersionStep = new SpecifyJavaVersionStep();
 
     public getNextStep(): IStep | undefined {
-        return SpecifyDependenciesStep.getInstance();
+        return SpecifyCustomAttributeStep.getInstance();
     }
 
     public async execute(_: string, projectMetadata: IProjectMetadata): Promise<IStep | undefined> {
@@ -29,7 +29,7 @@ export class SpecifyJavaVersionStep implements IStep {
     private async specifyJavaVersion(projectMetadata: IProjectMetadata): Promise<boolean> {
         const javaVersion: string | undefined =
             projectMetadata.defaults.javaVersion || workspace.getConfiguration("spring.initializr").get<string>("defaultJavaVersion");
-        if (javaVersion) {
+        if (javaVersion && !projectMetadata.reviewing) {
             projectMetadata.javaVersion = javaVersion;
             return true;
         }
@@ -29,7 +29,7 @@ export class SpecifyLanguageStep implements IStep {
     private async specifyLanguage(projectMetadata: IProjectMetadata): Promise<boolean> {
         const language: string | undefined =
             projectMetadata.defaults.language || workspace.getConfiguration("spring.initializr").get<string>("defaultLanguage");
-        if (language) {
+        if (language && !projectMetadata.reviewing) {
             projectMetadata.language = language?.toLowerCase();
             return true;
         }
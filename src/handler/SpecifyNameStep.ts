@@ -0,0 +1,47 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license.
+
+import { workspace } from "coc.nvim";
+import { IInputMetaData, IProjectMetadata, IStep } from "./HandlerInterfaces";
+import { SpecifyDescriptionStep } from "./SpecifyDescriptionStep";
+import { createInputBox } from "./utils";
+
+export class SpecifyNameStep implements IStep {
+    public static getInstance(): SpecifyNameStep {
+        return SpecifyNameStep.specifyNameStep;
+    }
+
+    private static readonly specifyNameStep: SpecifyNameStep = new SpecifyNameStep();
+
+    public getNextStep(): IStep | undefined {
+        return SpecifyDescriptionStep.getInstance();
+    }
+
+    public async execute(_: string, projectMetadata: IProjectMetadata): Promise<IStep | undefined> {
+        if (!(await this.specifyName(projectMetadata))) {
+            return projectMetadata.pickSteps.pop();
+        }
+        return this.getNextStep();
+    }
+
+    private async specifyName(projectMetadata: IProjectMetadata): Promise<boolean> {
+        if (projectMetadata.presetName && projectMetadata.defaults.name && !projectMetadata.reviewing) {
+            projectMetadata.name = projectMetadata.defaults.name;
+            return true;
+        }
+        const inputMetaData: IInputMetaData = {
+            metadata: projectMetadata,
+            title: "Spring Initializr: Input Name",
+            pickStep: SpecifyNameStep.getInstance(),
+            placeholder: "e.g. demo",
+            prompt: "Input Name for your project.",
+            defaultValue:
+                projectMetadata.name ??
+                (projectMetadata.defaults.name ||
+                    workspace.getConfiguration("spring.initializr").get<string>("defaultName") ||
+                    projectMetadata.artifactId ||
+                    "")
+        };
+        return await createInputBox(inputMetaData);
+    }
+}
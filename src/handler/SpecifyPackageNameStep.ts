@@ -1,6 +1,7 @@
 // Copyright (c) Microsoft Corporation. All rights reserved.
 // Licensed under the MIT license.
 
+import { getDefaultPackageName } from "../Utils";
 import { IInputMetaData, IProjectMetadata, IStep } from "./HandlerInterfaces";
 import { SpecifyPackagingStep } from "./SpecifyPackagingStep";
 import { createInputBox } from "./utils";
@@ -42,7 +43,7 @@ export class SpecifyPackageNameStep implements IStep {
     }
 
     private async specifyPackageName(projectMetadata: IProjectMetadata): Promise<boolean> {
-        const recommendedPackageName = `${projectMetadata.groupId}.${projectMetadata.artifactId}`.replace("-", "_");
+        const recommendedPackageName = getDefaultPackageName(projectMetadata.groupId, projectMetadata.artifactId);
 
         const inputMetaData: IInputMetaData = {
             metadata: projectMetadata,
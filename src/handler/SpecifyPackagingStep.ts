@@ -29,7 +29,7 @@ export class SpecifyPackagingStep implements IStep {
     private async specifyPackaging(projectMetadata: IProjectMetadata): Promise<boolean> {
         const packaging: string | undefined =
             projectMetadata.defaults.packaging || workspace.getConfiguration("spring.initializr").get<string>("defaultPackaging");
-        if (packaging) {
+        if (packaging && !projectMetadata.reviewing) {
             projectMetadata.packaging = packaging?.toLowerCase();
             return true;
         }
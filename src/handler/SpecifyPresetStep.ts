@@ -0,0 +1,83 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license.
+
+import { QuickPickItem, window, workspace } from "coc.nvim";
+import { OperationCanceledError } from "../Errors";
+import { IDefaultProjectData, IProjectMetadata, IProjectPreset, IStep, Navigation } from "./HandlerInterfaces";
+import { SpecifyServiceUrlStep } from "./SpecifyServiceUrlStep";
+import { getNavigationItems } from "./utils";
+
+const CUSTOM_PRESET_LABEL: string = "Custom";
+
+export class SpecifyPresetStep implements IStep {
+    public static getInstance(): SpecifyPresetStep {
+        return SpecifyPresetStep.specifyPresetStep;
+    }
+
+    private static readonly specifyPresetStep: SpecifyPresetStep = new SpecifyPresetStep();
+
+    // defaults the wizard was started with, restored when another preset is selected after going back
+    private readonly initialDefaults: WeakMap<IProjectMetadata, IDefaultProjectData> = new WeakMap();
+
+    public getNextStep(): IStep | undefined {
+        return SpecifyServiceUrlStep.getInstance();
+    }
+
+    public async execute(_: string, projectMetadata: IProjectMetadata): Promise<IStep | undefined> {
+        const presets: IProjectPreset[] = workspace.getConfiguration("spring.initializr").get<IProjectPreset[]>("presets", []);
+        const validPresets: IProjectPreset[] = presets.filter((preset) => preset?.name);
+        if (validPresets.length === 0) {
+            return this.getNextStep();
+        }
+
+        const items: Array<QuickPickItem & { preset?: IProjectPreset; navigation?: Navigation }> = [
+            { label: CUSTOM_PRESET_LABEL, description: "Specify every value of the project" },
+            ...validPresets.map((preset) => ({ label: preset.name, description: describePreset(preset), preset })),
+            ...getNavigationItems(projectMetadata)
+        ];
+        const selected = await window.showQuickPick(items, {
+            title: "Spring Initializr: Select project preset",
+            placeholder: "Select a preset or specify a custom project."
+        });
+        if (selected?.navigation === Navigation.BACK) {
+            return projectMetadata.pickSteps.pop();
+        } else if (selected === undefined || selected.navigation === Navigation.CANCEL) {
+            throw new OperationCanceledError("Preset not specified.");
+        }
+
+        if (!this.initialDefaults.has(projectMetadata)) {
+            this.initialDefaults.set(projectMetadata, projectMetadata.defaults);
+        }
+        const initialDefaults: IDefaultProjectData = this.initialDefaults.get(projectMetadata) as IDefaultProjectData;
+        if (selected.preset !== undefined) {
+            const { name, projectName, ...values } = selected.preset;
+            projectMetadata.presetName = name;
+            // values of the preset take precedence over the defaults the command was invoked with, except the service, e.g.
+            // createProject offers the project types of the service it resolved
+            projectMetadata.defaults = {
+                ...initialDefaults,
+                ...values,
+                ...(projectName ? { name: projectName } : {}),
+                serviceUrl: initialDefaults.serviceUrl || values.serviceUrl
+            };
+        } else {
+            projectMetadata.presetName = undefined;
+            projectMetadata.defaults = initialDefaults;
+        }
+        projectMetadata.pickSteps.push(this);
+        return this.getNextStep();
+    }
+}
+
+function describePreset(preset: IProjectPreset): string {
+    return [
+        preset.bootVersion,
+        preset.language,
+        preset.javaVersion && `Java ${preset.javaVersion}`,
+        preset.groupId,
+        preset.packaging,
+        preset.dependencies?.length && `${preset.dependencies.length} dependencies`
+    ]
+        .filter(Boolean)
+        .join(", ");
+}
@@ -1,10 +1,11 @@
 // Copyright (c) Microsoft Corporation. All rights reserved.
 // Licensed under the MIT license.
 
-import { OperationCanceledError } from "../Errors";
-import { IProjectMetadata, IStep } from "./HandlerInterfaces";
+import { uniq } from "lodash";
+import { Identifiable } from "../model/Metadata";
+import { IPickMetadata, IProjectMetadata, IStep } from "./HandlerInterfaces";
 import { SpecifyBootVersionStep } from "./SpecifyBootVersionStep";
-import { specifyServiceUrl } from "./utils";
+import { createPickBox, getConfiguredServiceUrl, getConfiguredServiceUrls } from "./utils";
 
 export class SpecifyServiceUrlStep implements IStep {
     public static getInstance(): SpecifyServiceUrlStep {
@@ -18,10 +19,25 @@ export class SpecifyServiceUrlStep implements IStep {
     }
 
     public async execute(_: string, projectMetadata: IProjectMetadata): Promise<IStep | undefined> {
-        projectMetadata.serviceUrl = await specifyServiceUrl(projectMetadata);
-        if (projectMetadata.serviceUrl === undefined) {
-            throw new OperationCanceledError("Service URL not specified.");
+        if (!(await this.specifyServiceUrl(projectMetadata))) {
+            return projectMetadata.pickSteps.pop();
         }
         return this.getNextStep();
     }
+
+    private async specifyServiceUrl(projectMetadata: IProjectMetadata): Promise<boolean> {
+        const serviceUrls: string[] = uniq([projectMetadata.serviceUrl, ...getConfiguredServiceUrls()].filter(Boolean) as string[]);
+        if (!projectMetadata.reviewing && (projectMetadata.defaults.serviceUrl || serviceUrls.length <= 1)) {
+            projectMetadata.serviceUrl = projectMetadata.defaults.serviceUrl || getConfiguredServiceUrl();
+            return true;
+        }
+        const pickMetaData: IPickMetadata<Identifiable> = {
+            metadata: projectMetadata,
+            title: "Spring Initializr: Specify service URL",
+            pickStep: SpecifyServiceUrlStep.getInstance(),
+            placeholder: "Select the service URL.",
+            items: serviceUrls.map((serviceUrl) => ({ label: serviceUrl, value: { id: serviceUrl, name: serviceUrl } }))
+        };
+        return await createPickBox(pickMetaData);
+    }
 }
@@ -0,0 +1,46 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license.
+
+import { workspace } from "coc.nvim";
+import { IInputMetaData, IProjectMetadata, IStep } from "./HandlerInterfaces";
+import { SpecifyPackageNameStep } from "./SpecifyPackageNameStep";
+import { createInputBox } from "./utils";
+
+export class SpecifyVersionStep implements IStep {
+    public static getInstance(): SpecifyVersionStep {
+        return SpecifyVersionStep.specifyVersionStep;
+    }
+
+    private static readonly specifyVersionStep: SpecifyVersionStep = new SpecifyVersionStep();
+
+    public getNextStep(): IStep | undefined {
+        return SpecifyPackageNameStep.getInstance();
+    }
+
+    public async execute(_: string, projectMetadata: IProjectMetadata): Promise<IStep | undefined> {
+        if (!(await this.specifyVersion(projectMetadata))) {
+            return projectMetadata.pickSteps.pop();
+        }
+        return this.getNextStep();
+    }
+
+    private async specifyVersion(projectMetadata: IProjectMetadata): Promise<boolean> {
+        if (projectMetadata.presetName && projectMetadata.defaults.version && !projectMetadata.reviewing) {
+            projectMetadata.version = projectMetadata.defaults.version;
+            return true;
+        }
+        const inputMetaData: IInputMetaData = {
+            metadata: projectMetadata,
+            title: "Spring Initializr: Input Version",
+            pickStep: SpecifyVersionStep.getInstance(),
+            placeholder: "e.g. 0.0.1-SNAPSHOT",
+            prompt: "Input Version for your project.",
+            defaultValue:
+                projectMetadata.version ||
+                projectMetadata.defaults.version ||
+                workspace.getConfiguration("spring.initializr").get<string>("defaultVersion") ||
+                ""
+        };
+        return await createInputBox(inputMetaData);
+    }
+}
@@ -0,0 +1,119 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license.
+
+import * as coc from "coc.nvim";
+import { Element } from "domhandler";
+import * as _ from "lodash";
+import * as path from "path";
+import { IDependency, ILink, ILinks, IMavenId, serviceManager } from "../model";
+import { Dependency, Metadata } from "../model/Metadata";
+import { findStarterId, getDependencyElementAt, getStarterMavenIds } from "../providers/pomStarters";
+import { UserError } from "../Utils/error";
+import { getChildText, XmlTagName } from "../Utils/xml/lexer";
+import { searchForBootParentPom } from "./AddStartersHandler";
+import { BaseHandler } from "./BaseHandler";
+import { getConfiguredServiceUrl } from "./utils";
+
+interface IStarterLink {
+    type: string;
+    title?: string;
+    href: string;
+}
+
+// in the order they are offered
+const LINK_TYPES: Array<keyof ILinks> = ["reference", "guide", "sample", "home", "other"];
+
+export class StarterDocsHandler extends BaseHandler {
+    protected get failureMessage(): string {
+        return "Fail to open starter documentation.";
+    }
+
+    public async runSteps(): Promise<void> {
+        const document: coc.Document = await coc.workspace.document;
+        const uri: coc.Uri = coc.Uri.parse(document.uri);
+        if (path.basename(uri.fsPath).toLowerCase() !== "pom.xml") {
+            throw new UserError("Place the cursor on a <dependency> in pom.xml.");
+        }
+        const offset: number = document.textDocument.offsetAt(await coc.window.getCursorPosition());
+        const node: Element | undefined = getDependencyElementAt(document.textDocument.getText(), offset);
+        if (node === undefined) {
+            throw new UserError("No <dependency> found at the cursor.");
+        }
+
+        const serviceUrl: string = getConfiguredServiceUrl();
+        const metadata: Metadata = await serviceManager.getMetadata(serviceUrl);
+        const bootVersion: string | undefined = (await searchForBootParentPom(uri))?.bootVersion ?? metadata.bootVersion.default;
+        const mavenIds: { [id: string]: IMavenId } = await getStarterMavenIds(serviceUrl, [bootVersion, metadata.bootVersion.default]);
+        const id: string | undefined = findStarterId(mavenIds, node);
+        const dependency: Dependency | undefined = metadata.dependencies.values
+            .flatMap((group) => group.values)
+            .find((dep) => dep.id === id);
+        if (dependency === undefined) {
+            const gav: string = `${getChildText(node, XmlTagName.GroupId)}:${getChildText(node, XmlTagName.ArtifactId)}`;
+            throw new UserError(`${gav} is not a starter of ${serviceUrl}.`);
+        }
+        await openStarterDocs(dependency, bootVersion);
+    }
+}
+
+/**
+ * Let the user pick one of the starters having documentation, and open it.
+ * @param selectedIds ids of the starters selected in the dependency picker, listed first.
+ */
+export async function pickStarterDocs(dependencies: IDependency[], bootVersion?: string, selectedIds: string[] = []): Promise<void> {
+    const withDocs: IDependency[] = dependencies.filter((dep) => getStarterLinks(dep, bootVersion).length > 0);
+    const items: Array<coc.QuickPickItem & { id: string }> = [
+        ...withDocs
+            .filter((dep) => selectedIds.includes(dep.id))
+            .map((dep) => ({ label: `(selected) ${dep.name}`, description: dep.group, id: dep.id })),
+        ...withDocs.filter((dep) => !selectedIds.includes(dep.id)).map((dep) => ({ label: dep.name, description: dep.group, id: dep.id }))
+    ];
+    const selected = await coc.window.showQuickPick(items, {
+        matchOnDescription: true,
+        placeholder: "Select the starter to open documentation for."
+    });
+    const dependency: IDependency | undefined = dependencies.find((dep) => dep.id === selected?.id);
+    if (dependency !== undefined) {
+        await openStarterDocs(dependency, bootVersion);
+    }
+}
+
+/**
+ * Open the documentation of the starter in the browser, asking which one when the starter links to several pages.
+ */
+export async function openStarterDocs(dependency: IDependency | Dependency, bootVersion?: string): Promise<void> {
+    const links: IStarterLink[] = getStarterLinks(dependency, bootVersion);
+    if (links.length === 0) {
+        coc.window.showInformationMessage(`No documentation available for ${dependency.name}.`);
+        return;
+    }
+    let link: IStarterLink | undefined = links[0];
+    if (links.length > 1) {
+        const selected = await coc.window.showQuickPick(
+            links.map((l, index) => ({ label: `${_.capitalize(l.type)}: ${l.title ?? l.href}`, description: l.href, index })),
+            { placeholder: `Open documentation of ${dependency.name}.` }
+        );
+        link = selected && links[selected.index];
+    }
+    if (link !== undefined) {
+        await coc.workspace.openResource(link.href);
+    }
+}
+
+/**
+ * Get the links of the starter, templated links are expanded with the boot version and skipped without one.
+ */
+export function getStarterLinks(dependency: IDependency | Dependency, bootVersion?: string): IStarterLink[] {
+    const ret: IStarterLink[] = [];
+    for (const type of LINK_TYPES) {
+        const links: ILink[] = ([] as ILink[]).concat(dependency._links?.[type] ?? []);
+        for (const link of links) {
+            if (!link.templated) {
+                ret.push({ type, title: link.title, href: link.href });
+            } else if (bootVersion) {
+                ret.push({ type, title: link.title, href: link.href.replace(/\{bootVersion\}/g, bootVersion) });
+            }
+        }
+    }
+    return ret;
+}
@@ -0,0 +1,134 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license.
+
+import * as coc from "coc.nvim";
+import { uniq } from "lodash";
+import { getBomNodes, getDependencyNodes, IBomNode, IMavenId, IStarters, serviceManager, XmlNode } from "../model";
+import { BootVersion, Dependency, MatadataType, Metadata } from "../model/Metadata";
+import { readXmlContent } from "../Utils";
+import { UserError } from "../Utils/error";
+import { withScratchBuffer } from "../Utils/scratchBuffer";
+import { matchRange } from "../Utils/VersionHelper";
+import { updateBootVersion } from "../Utils/xml";
+import { searchForBootParentPom } from "./AddStartersHandler";
+import { BaseHandler } from "./BaseHandler";
+import { IHandlerItem } from "./HandlerInterfaces";
+import { specifyServiceUrl } from "./utils";
+
+interface IUpgradeReport {
+    incompatibleStarters: string[];
+    changedBoms: string[];
+}
+
+export class UpgradeBootVersionHandler extends BaseHandler {
+    protected get failureMessage(): string {
+        return "Fail to upgrade Spring Boot version.";
+    }
+
+    public async runSteps(_: string, entry: coc.Uri): Promise<void> {
+        const bootParent = await searchForBootParentPom(entry);
+        if (bootParent === undefined) {
+            throw new UserError("Not within a valid Spring Boot project.");
+        }
+        const currentVersion: string = bootParent.bootVersion;
+
+        const serviceUrl: string | undefined = await specifyServiceUrl();
+        if (serviceUrl === undefined) {
+            return;
+        }
+        const items: Array<IHandlerItem<BootVersion>> = await serviceManager.getItems<BootVersion>(serviceUrl, MatadataType.BOOTVERSION);
+        const selected: IHandlerItem<BootVersion> | undefined = await coc.window.showQuickPick(
+            items.map((item) => ({ ...item, description: item.value?.id === currentVersion ? "current" : undefined })),
+            { placeholder: `Select the Spring Boot version to upgrade to, current version is ${currentVersion}.` }
+        );
+        const newVersion: string | undefined = selected?.value?.id;
+        if (newVersion === undefined) {
+            return;
+        }
+        if (newVersion === currentVersion) {
+            coc.window.showInformationMessage(`Spring Boot version is already ${currentVersion}.`);
+            return;
+        }
+
+        // starters of both the pom itself and the pom declaring the parent are affected by the upgrade
+        const projectNodes: XmlNode[] = [];
+        for (const uri of uniq([entry.fsPath, bootParent.uri.fsPath])) {
+            projectNodes.push((await readXmlContent(await coc.workspace.readFile(uri))).project);
+        }
+        const report: IUpgradeReport = await coc.window.withProgress<IUpgradeReport>(
+            { title: "Checking compatibility of starters..." },
+            async () => await getUpgradeReport(serviceUrl, projectNodes, currentVersion, newVersion)
+        );
+
+        const lines: string[] = [
+            `Upgrading Spring Boot from ${currentVersion} to ${newVersion}`,
+            "",
+            "Starters not compatible with the new version:",
+            ...(report.incompatibleStarters.length > 0 ? report.incompatibleStarters.map((line) => `  ${line}`) : ["  none"]),
+            "",
+            "BOM versions changed by the new version:",
+            ...(report.changedBoms.length > 0 ? report.changedBoms.map((line) => `  ${line}`) : ["  none"])
+        ];
+        const choice: string | undefined = await withScratchBuffer("Spring Boot Upgrade", lines, async () =>
+            coc.window.showQuickPick(["Proceed", "Cancel"], {
+                placeholder: `Upgrade Spring Boot to ${newVersion}?`
+            })
+        );
+        if (choice !== "Proceed") {
+            return;
+        }
+
+        await updateBootVersion(bootParent.uri, newVersion);
+        coc.window.showInformationMessage(`Spring Boot version upgraded to ${newVersion}.`);
+    }
+}
+
+async function getUpgradeReport(
+    serviceUrl: string,
+    projectNodes: XmlNode[],
+    currentVersion: string,
+    newVersion: string
+): Promise<IUpgradeReport> {
+    const metadata: Metadata = await serviceManager.getMetadata(serviceUrl);
+    const newStarters: IStarters = await serviceManager.getStarters(serviceUrl, newVersion);
+    let currentStarters: IStarters | undefined;
+    try {
+        currentStarters = await serviceManager.getStarters(serviceUrl, currentVersion);
+    } catch (error) {
+        // the service only supports recent versions, starters of older ones can only be looked up in the new version
+        currentStarters = undefined;
+    }
+
+    // starters no longer available in the new version are only listed for the current one
+    const mavenIds: { [id: string]: IMavenId } = { ...newStarters.dependencies, ...currentStarters?.dependencies };
+    const declaredDeps: string[] = projectNodes.flatMap((node) =>
+        getDependencyNodes(node).map((elem) => `${elem.groupId[0]}:${elem.artifactId[0]}`)
+    );
+    const starterIds: string[] = Object.keys(mavenIds).filter((id) =>
+        declaredDeps.includes(`${mavenIds[id].groupId}:${mavenIds[id].artifactId}`)
+    );
+
+    const dependencies: Dependency[] = metadata.dependencies.values.flatMap((group) => group.values);
+    const incompatibleStarters: string[] = starterIds
+        .map((id) => dependencies.find((dep) => dep.id === id))
+        .filter((dep): dep is Dependency => !!dep?.versionRange && !matchRange(newVersion, dep.versionRange))
+        .map((dep) => `${dep.name} (${dep.id}) requires Spring Boot ${dep.versionRange}`);
+
+    const declaredBoms: IBomNode[] = projectNodes.flatMap((node) => getBomNodes(node));
+    const changedBoms: string[] = [];
+    for (const bomId of uniq(starterIds.map((id) => mavenIds[id].bom)).filter(Boolean) as string[]) {
+        const newBom = newStarters.boms[bomId];
+        if (newBom === undefined) {
+            continue;
+        }
+        // fall back to the version declared in the pom when the current version is not supported by the service
+        const declared: IBomNode | undefined = declaredBoms.find(
+            (node) => node.groupId[0] === newBom.groupId && node.artifactId[0] === newBom.artifactId
+        );
+        const currentBomVersion: string | undefined = currentStarters?.boms[bomId]?.version ?? declared?.version?.[0];
+        if (currentBomVersion && !currentBomVersion.startsWith("${") && currentBomVersion !== newBom.version) {
+            changedBoms.push(`${newBom.groupId}:${newBom.artifactId} ${currentBomVersion} -> ${newBom.version}`);
+        }
+    }
+    return { incompatibleStarters, changedBoms };
+}
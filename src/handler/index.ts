@@ -2,5 +2,16 @@
 // Licensed under the MIT license.
 
 import { AddStartersHandler } from "./AddStartersHandler";
+import { GenerateBuildFileHandler } from "./GenerateBuildFileHandler";
+import { GenerateFromSpecHandler } from "./GenerateFromSpecHandler";
 import { GenerateProjectHandler } from "./GenerateProjectHandler";
-export { GenerateProjectHandler, AddStartersHandler };
+import { StarterDocsHandler } from "./StarterDocsHandler";
+import { UpgradeBootVersionHandler } from "./UpgradeBootVersionHandler";
+export {
+    GenerateProjectHandler,
+    GenerateFromSpecHandler,
+    GenerateBuildFileHandler,
+    AddStartersHandler,
+    UpgradeBootVersionHandler,
+    StarterDocsHandler
+};
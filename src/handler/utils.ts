@@ -2,57 +2,83 @@
 // Licensed under the MIT license.
 
 import * as coc from "coc.nvim";
-import { window } from "coc.nvim";
+import { QuickPickItem, window } from "coc.nvim";
 import { OperationCanceledError } from "../Errors";
 import { Identifiable } from "../model/Metadata";
-import { IHandlerItem, IInputMetaData, IPickMetadata, IProjectMetadata } from "./HandlerInterfaces";
+import { IHandlerItem, IInputMetaData, IPickMetadata, IProjectMetadata, IStep, Navigation } from "./HandlerInterfaces";
 import { SpecifyArtifactIdStep } from "./SpecifyArtifactIdStep";
 import { SpecifyBootVersionStep } from "./SpecifyBootVersionStep";
+import { SpecifyCustomAttributeStep } from "./SpecifyCustomAttributeStep";
+import { SpecifyDescriptionStep } from "./SpecifyDescriptionStep";
 import { SpecifyGroupIdStep } from "./SpecifyGroupIdStep";
 import { SpecifyJavaVersionStep } from "./SpecifyJavaVersionStep";
 import { SpecifyLanguageStep } from "./SpecifyLanguageStep";
+import { SpecifyNameStep } from "./SpecifyNameStep";
 import { SpecifyPackageNameStep } from "./SpecifyPackageNameStep";
 import { SpecifyPackagingStep } from "./SpecifyPackagingStep";
 import { SpecifyServiceUrlStep } from "./SpecifyServiceUrlStep";
+import { SpecifyVersionStep } from "./SpecifyVersionStep";
 
 const DEFAULT_SERVICE_URL: string = "https://start.spring.io";
 
-export async function specifyServiceUrl(projectMetadata?: IProjectMetadata): Promise<string | undefined> {
+export async function specifyServiceUrl(): Promise<string | undefined> {
+    const serviceUrls: string[] = getConfiguredServiceUrls();
+    if (serviceUrls.length > 1) {
+        return await coc.window.showQuickPick(serviceUrls, { placeholder: "Select the service URL." });
+    }
+    return serviceUrls[0] ?? DEFAULT_SERVICE_URL;
+}
+
+/**
+ * The first configured service URL, for features which cannot prompt for one.
+ */
+export function getConfiguredServiceUrl(): string {
+    return getConfiguredServiceUrls()[0] || DEFAULT_SERVICE_URL;
+}
+
+export function getConfiguredServiceUrls(): string[] {
     const configValue: string | string[] = coc.workspace.getConfiguration("spring.initializr").get<string | string[]>("serviceUrl", []);
     if (typeof configValue === "string") {
-        return configValue;
-    } else if (typeof configValue === "object" && configValue instanceof Array && configValue.length > 0) {
-        if (configValue.length === 1) {
-            return configValue[0];
-        }
-        if (projectMetadata !== undefined) {
-            projectMetadata.pickSteps.push(SpecifyServiceUrlStep.getInstance());
-        }
-        return await coc.window.showQuickPick(configValue, { placeholder: "Select the service URL." });
-    } else {
-        return DEFAULT_SERVICE_URL;
+        return [configValue];
     }
+    return configValue instanceof Array ? configValue : [];
 }
 
-export async function createPickBox<T extends Identifiable>(pickMetadata: IPickMetadata<T>): Promise<boolean> {
-    const selected = await window.showQuickPick<IHandlerItem<T>>(pickMetadata.items, {
-        title: pickMetadata.title,
-        placeholder: pickMetadata.placeholder
-    });
+/**
+ * Items leaving a step of the wizard. "Back" returns to the last step which prompted for a value, so it is only offered
+ * when there is such a step.
+ */
+export function getNavigationItems(metadata: IProjectMetadata): Array<QuickPickItem & { navigation: Navigation }> {
+    return [
+        ...(metadata.pickSteps.length > 0
+            ? [{ label: "Back", description: "Return to the previous step", navigation: Navigation.BACK }]
+            : []),
+        { label: "Cancel", description: "Stop generating the project", navigation: Navigation.CANCEL }
+    ];
+}
 
-    if (selected === undefined) {
-        if (pickMetadata.pickStep instanceof SpecifyLanguageStep) {
-            throw new OperationCanceledError("Language not specified.");
-        } else if (pickMetadata.pickStep instanceof SpecifyJavaVersionStep) {
-            throw new OperationCanceledError("Java version not specified.");
-        } else if (pickMetadata.pickStep instanceof SpecifyPackagingStep) {
-            throw new OperationCanceledError("Packaging not specified.");
-        } else if (pickMetadata.pickStep instanceof SpecifyBootVersionStep) {
-            throw new OperationCanceledError("BootVersion not specified.");
+export async function createPickBox<T extends Identifiable>(pickMetadata: IPickMetadata<T>): Promise<boolean> {
+    // the value specified before going back is offered first
+    const current: string | undefined = getCurrentValue(pickMetadata);
+    const isCurrent = (item: IHandlerItem<T>) =>
+        current !== undefined && (item.value?.id === current || item.label.toLowerCase() === current);
+    const items: Array<IHandlerItem<T>> = await pickMetadata.items;
+    const selected = await window.showQuickPick<IHandlerItem<T>>(
+        [...items.filter(isCurrent), ...items.filter((item) => !isCurrent(item)), ...getNavigationItems(pickMetadata.metadata)],
+        {
+            title: pickMetadata.title,
+            placeholder: pickMetadata.placeholder
         }
+    );
+
+    if (selected?.navigation === Navigation.BACK) {
         return false;
+    } else if (selected === undefined || selected.navigation === Navigation.CANCEL) {
+        throw new OperationCanceledError(getCanceledMessage(pickMetadata.pickStep));
     } else {
-        if (pickMetadata.pickStep instanceof SpecifyLanguageStep) {
+        if (pickMetadata.pickStep instanceof SpecifyServiceUrlStep) {
+            pickMetadata.metadata.serviceUrl = selected.value?.id;
+        } else if (pickMetadata.pickStep instanceof SpecifyLanguageStep) {
             pickMetadata.metadata.language = selected.label?.toLowerCase();
         } else if (pickMetadata.pickStep instanceof SpecifyJavaVersionStep) {
             pickMetadata.metadata.javaVersion = selected.value?.id;
@@ -60,6 +86,8 @@ export async function createPickBox<T extends Identifiable>(pickMetadata: IPickM
             pickMetadata.metadata.packaging = selected.label?.toLowerCase();
         } else if (pickMetadata.pickStep instanceof SpecifyBootVersionStep) {
             pickMetadata.metadata.bootVersion = selected.value?.id;
+        } else if (pickMetadata.pickStep instanceof SpecifyCustomAttributeStep) {
+            pickMetadata.pickStep.setValue(pickMetadata.metadata, selected.value?.id);
         }
         pickMetadata.metadata.pickSteps.push(pickMetadata.pickStep);
         return true;
@@ -72,14 +100,10 @@ export async function createInputBox(inputMetaData: IInputMetaData): Promise<boo
     });
 
     if (input === undefined) {
-        if (inputMetaData.pickStep instanceof SpecifyGroupIdStep) {
-            throw new OperationCanceledError("GroupId not specified.");
-        } else if (inputMetaData.pickStep instanceof SpecifyArtifactIdStep) {
-            throw new OperationCanceledError("ArtifactId not specified.");
-        } else if (inputMetaData.pickStep instanceof SpecifyPackageNameStep) {
-            throw new OperationCanceledError("PackageName not specified.");
+        if ((await specifyNavigation(inputMetaData.metadata)) === Navigation.BACK) {
+            return false;
         }
-        return false;
+        throw new OperationCanceledError(getCanceledMessage(inputMetaData.pickStep));
     }
 
     if (inputMetaData.pickStep instanceof SpecifyGroupIdStep) {
@@ -87,13 +111,87 @@ export async function createInputBox(inputMetaData: IInputMetaData): Promise<boo
         SpecifyGroupIdStep.getInstance().setDefaultInput(input);
         inputMetaData.metadata.pickSteps.push(SpecifyGroupIdStep.getInstance());
     } else if (inputMetaData.pickStep instanceof SpecifyArtifactIdStep) {
+        // the name follows the artifact id until it is edited
+        if (inputMetaData.metadata.name !== undefined && inputMetaData.metadata.name === inputMetaData.metadata.artifactId) {
+            inputMetaData.metadata.name = input;
+        }
         inputMetaData.metadata.artifactId = input;
         SpecifyArtifactIdStep.getInstance().setDefaultInput(input);
         inputMetaData.metadata.pickSteps.push(SpecifyArtifactIdStep.getInstance());
+    } else if (inputMetaData.pickStep instanceof SpecifyNameStep) {
+        inputMetaData.metadata.name = input;
+        inputMetaData.metadata.pickSteps.push(inputMetaData.pickStep);
+    } else if (inputMetaData.pickStep instanceof SpecifyDescriptionStep) {
+        inputMetaData.metadata.description = input;
+        inputMetaData.metadata.pickSteps.push(inputMetaData.pickStep);
+    } else if (inputMetaData.pickStep instanceof SpecifyVersionStep) {
+        inputMetaData.metadata.version = input;
+        inputMetaData.metadata.pickSteps.push(inputMetaData.pickStep);
     } else if (inputMetaData.pickStep instanceof SpecifyPackageNameStep) {
         inputMetaData.metadata.packageName = input;
         SpecifyPackageNameStep.getInstance().setDefaultInput(input);
         inputMetaData.metadata.pickSteps.push(SpecifyPackageNameStep.getInstance());
+    } else if (inputMetaData.pickStep instanceof SpecifyCustomAttributeStep) {
+        inputMetaData.pickStep.setValue(inputMetaData.metadata, input);
+        inputMetaData.metadata.pickSteps.push(inputMetaData.pickStep);
     }
     return true;
 }
+
+/**
+ * Input boxes cannot offer items, so going back or canceling is asked for once the input is dismissed.
+ */
+async function specifyNavigation(metadata: IProjectMetadata): Promise<Navigation> {
+    if (metadata.pickSteps.length === 0) {
+        return Navigation.CANCEL;
+    }
+    const selected = await window.showQuickPick(getNavigationItems(metadata), { placeholder: "Return to the previous step?" });
+    return selected?.navigation ?? Navigation.CANCEL;
+}
+
+function getCurrentValue<T extends Identifiable>(pickMetadata: IPickMetadata<T>): string | undefined {
+    const { metadata, pickStep } = pickMetadata;
+    if (pickStep instanceof SpecifyServiceUrlStep) {
+        return metadata.serviceUrl;
+    } else if (pickStep instanceof SpecifyLanguageStep) {
+        return metadata.language;
+    } else if (pickStep instanceof SpecifyJavaVersionStep) {
+        return metadata.javaVersion;
+    } else if (pickStep instanceof SpecifyPackagingStep) {
+        return metadata.packaging;
+    } else if (pickStep instanceof SpecifyBootVersionStep) {
+        return metadata.bootVersion;
+    } else if (pickStep instanceof SpecifyCustomAttributeStep && pickStep.attribute !== undefined) {
+        return metadata.customAttributes?.[pickStep.attribute.id];
+    }
+    return undefined;
+}
+
+function getCanceledMessage(step: IStep): string {
+    if (step instanceof SpecifyServiceUrlStep) {
+        return "Service URL not specified.";
+    } else if (step instanceof SpecifyLanguageStep) {
+        return "Language not specified.";
+    } else if (step instanceof SpecifyJavaVersionStep) {
+        return "Java version not specified.";
+    } else if (step instanceof SpecifyPackagingStep) {
+        return "Packaging not specified.";
+    } else if (step instanceof SpecifyBootVersionStep) {
+        return "BootVersion not specified.";
+    } else if (step instanceof SpecifyGroupIdStep) {
+        return "GroupId not specified.";
+    } else if (step instanceof SpecifyArtifactIdStep) {
+        return "ArtifactId not specified.";
+    } else if (step instanceof SpecifyNameStep) {
+        return "Name not specified.";
+    } else if (step instanceof SpecifyDescriptionStep) {
+        return "Description not specified.";
+    } else if (step instanceof SpecifyVersionStep) {
+        return "Version not specified.";
+    } else if (step instanceof SpecifyPackageNameStep) {
+        return "PackageName not specified.";
+    } else if (step instanceof SpecifyCustomAttributeStep) {
+        return `${step.attribute?.id} not specified.`;
+    }
+    return "Project generation canceled.";
+}
@@ -3,10 +3,26 @@
 
 "use strict";
 import * as coc from "coc.nvim";
-import { AddStartersHandler, GenerateProjectHandler } from "./handler";
+import { clearDependenciesHistory } from "./DependencyManager";
+import {
+    AddStartersHandler,
+    GenerateBuildFileHandler,
+    GenerateFromSpecHandler,
+    GenerateProjectHandler,
+    StarterDocsHandler,
+    UpgradeBootVersionHandler
+} from "./handler";
 import { BaseHandler } from "./handler/BaseHandler";
-import { ProjectType } from "./model";
-import { getTargetPomXml, loadPackageInfo } from "./Utils";
+import { specifyServiceUrl } from "./handler/utils";
+import { IDefaultProjectData, IHandlerItem } from "./handler/HandlerInterfaces";
+import { ProjectType, serviceManager } from "./model";
+import { Identifiable, MatadataType } from "./model/Metadata";
+import { SpringStartersList } from "./providers/SpringStartersList";
+import { StarterCodeActionProvider } from "./providers/StarterCodeActionProvider";
+import { StarterCompletionProvider } from "./providers/StarterCompletionProvider";
+import { StarterDiagnosticsProvider } from "./providers/StarterDiagnosticsProvider";
+import { StarterHoverProvider } from "./providers/StarterHoverProvider";
+import { getTargetBuildFile, getTargetPomXml, loadPackageInfo } from "./Utils";
 
 export async function activate(context: coc.ExtensionContext): Promise<void> {
     initializeExtension(context);
@@ -14,6 +30,24 @@ export async function activate(context: coc.ExtensionContext): Promise<void> {
 
 export async function initializeExtension(context: coc.ExtensionContext): Promise<void> {
     await loadPackageInfo(context);
+    serviceManager.initialize(context.storagePath);
+    context.subscriptions.push(new StarterDiagnosticsProvider());
+    context.subscriptions.push(coc.listManager.registerList(new SpringStartersList()));
+    context.subscriptions.push(
+        coc.languages.registerCompletionItemProvider(
+            "spring-initializr",
+            "SI",
+            [{ pattern: "**/pom.xml" }],
+            new StarterCompletionProvider(),
+            [">"]
+        )
+    );
+    context.subscriptions.push(coc.languages.registerHoverProvider([{ pattern: "**/pom.xml" }], new StarterHoverProvider()));
+    context.subscriptions.push(
+        coc.languages.registerCodeActionProvider([{ pattern: "**/pom.xml" }], new StarterCodeActionProvider(), "spring-initializr", [
+            coc.CodeActionKind.QuickFix
+        ])
+    );
 
     context.subscriptions.push(
         coc.commands.registerCommand(
@@ -34,20 +68,33 @@ export async function initializeExtension(context: coc.ExtensionContext): Promis
     );
 
     context.subscriptions.push(
-        coc.commands.registerCommand("spring.initializr.createProject", async () => {
-            const projectType: any = await coc.window.showQuickPick(
-                [
-                    { value: "maven-project", label: "Maven Project" },
-                    { value: "gradle-project", label: "Gradle Project" },
-                    {
-                        value: "gradle-project-kotlin",
-                        label: "Gradle Project - Kotlin DSL"
-                    }
-                ],
-                { placeHolder: "Select project type." }
-            );
-            if (projectType) {
-                await coc.commands.executeCommand(`spring.initializr.${projectType.value}`);
+        coc.commands.registerCommand(
+            "spring.initializr.generateBuildFile",
+            async (operationId, defaults) => await new GenerateBuildFileHandler(defaults).run(operationId),
+            true
+        )
+    );
+
+    context.subscriptions.push(
+        coc.commands.registerCommand(
+            "spring.initializr.generateFromSpec",
+            async (spec) => await new GenerateFromSpecHandler().run("", spec),
+            true
+        )
+    );
+
+    context.subscriptions.push(
+        coc.commands.registerCommand("spring.initializr.createProject", async (operationId, defaults?: IDefaultProjectData) => {
+            const serviceUrl: string | undefined = defaults?.serviceUrl ?? (await specifyServiceUrl());
+            if (serviceUrl === undefined) {
+                return;
+            }
+            const projectTypes: Array<IHandlerItem<Identifiable>> = await serviceManager.getItems(serviceUrl, MatadataType.TYPE);
+            const projectType: IHandlerItem<Identifiable> | undefined = await coc.window.showQuickPick(projectTypes, {
+                placeholder: "Select project type."
+            });
+            if (projectType?.value) {
+                await new GenerateProjectHandler(projectType.value.id, { ...defaults, serviceUrl }).run(operationId);
             }
         })
     );
@@ -56,10 +103,25 @@ export async function initializeExtension(context: coc.ExtensionContext): Promis
         coc.commands.registerCommand(
             "spring.initializr.addStarters",
             async () => {
-                const targetFile: coc.Uri | undefined = await getTargetPomXml();
+                const targetFile: coc.Uri | undefined = await getTargetBuildFile();
                 if (targetFile) {
                     const handler: BaseHandler = new AddStartersHandler();
                     await handler.run("", targetFile);
+                } else {
+                    coc.window.showInformationMessage("No pom.xml or build.gradle found in the workspace.");
+                }
+            },
+            true
+        )
+    );
+
+    context.subscriptions.push(
+        coc.commands.registerCommand(
+            "spring.initializr.upgradeBootVersion",
+            async () => {
+                const targetFile: coc.Uri | undefined = await getTargetPomXml();
+                if (targetFile) {
+                    await new UpgradeBootVersionHandler().run("", targetFile);
                 } else {
                     coc.window.showInformationMessage("No pom.xml found in the workspace.");
                 }
@@ -67,4 +129,24 @@ export async function initializeExtension(context: coc.ExtensionContext): Promis
             true
         )
     );
+
+    context.subscriptions.push(
+        coc.commands.registerCommand("spring.initializr.starterDocs", async () => await new StarterDocsHandler().run(""), true)
+    );
+
+    context.subscriptions.push(
+        coc.commands.registerCommand("spring.initializr.refreshMetadata", async () => {
+            const serviceUrl: string | undefined = await specifyServiceUrl();
+            if (serviceUrl && (await serviceManager.refresh(serviceUrl))) {
+                coc.window.showInformationMessage(`Metadata of ${serviceUrl} successfully refreshed.`);
+            }
+        })
+    );
+
+    context.subscriptions.push(
+        coc.commands.registerCommand("spring.initializr.clearDependenciesHistory", async () => {
+            await clearDependenciesHistory();
+            coc.window.showInformationMessage("History of selected dependencies cleared.");
+        })
+    );
 }
@@ -10,11 +10,12 @@ export interface IDependency extends IValue {
 
 export interface ILinks {
     // Count of starters by link types for Spring Boot v2.7.2: {reference: 95, guide: 39, home: 1, other: 1, sample: 7}
-    reference?: ILink;
-    guide?: ILink;
-    home?: ILink;
-    other?: ILink;
-    sample?: ILink;
+    // a link type holds a list of links when there are several, e.g. guides
+    reference?: ILink | ILink[];
+    guide?: ILink | ILink[];
+    home?: ILink | ILink[];
+    other?: ILink | ILink[];
+    sample?: ILink | ILink[];
 }
 
 export interface ILink {
@@ -31,6 +32,14 @@ export interface ITopLevelAttribute {
     values?: IValue[];
 }
 
+/**
+ * Top level attribute of the metadata which the wizard has no dedicated step for, e.g. exposed by a customized
+ * instance of the service.
+ */
+export interface ICustomAttribute extends ITopLevelAttribute {
+    id: string;
+}
+
 export interface IValue {
     id: string;
     name: string;
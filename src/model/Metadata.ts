@@ -1,6 +1,8 @@
 // Copyright (c) Microsoft Corporation. All rights reserved.
 // Licensed under the MIT license.
 
+import { ILinks } from "./Interfaces";
+
 /**
  * See https://docs.spring.io/initializr/docs/current/reference/html/#api-guide
  */
@@ -17,7 +19,8 @@ export enum MatadataType {
     BOOTVERSION,
     JAVAVERSION,
     LANGUAGE,
-    PACKAGING
+    PACKAGING,
+    TYPE
 }
 
 interface Nameable {
@@ -33,8 +36,12 @@ interface Category<T extends Nameable> {
     values: T[];
 }
 
-interface ProjectType extends Identifiable {
+export interface ProjectType extends Identifiable {
+    // path of the endpoint generating this type of project, e.g. "/starter.zip" or "/pom.xml"
     action: string;
+    description?: string;
+    // e.g. { build: "maven", format: "project" }
+    tags?: { [key: string]: string };
 }
 
 export type BootVersion = Identifiable;
@@ -47,4 +54,5 @@ export interface DependencyGroup extends Category<Dependency>, Nameable {}
 export interface Dependency extends Identifiable {
     description?: string;
     versionRange?: string;
+    _links?: ILinks;
 }
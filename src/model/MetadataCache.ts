@@ -0,0 +1,62 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license.
+
+import * as fse from "fs-extra";
+import md5 from "md5";
+import * as path from "path";
+
+export interface ICacheEntry<T> {
+    key: string;
+    timestamp: number;
+    data: T;
+}
+
+/**
+ * Stores service responses on disk, one json file per key, so they survive restarts of the editor.
+ */
+export class MetadataCache {
+    constructor(private readonly folder: string) {}
+
+    public async read<T>(key: string): Promise<ICacheEntry<T> | undefined> {
+        try {
+            return await fse.readJSON(this.getPath(key));
+        } catch (error) {
+            return undefined;
+        }
+    }
+
+    public async write<T>(key: string, data: T): Promise<void> {
+        const entry: ICacheEntry<T> = { key, timestamp: Date.now(), data };
+        await fse.ensureDir(this.folder);
+        await fse.writeJSON(this.getPath(key), entry);
+    }
+
+    /**
+     * Remove all entries for which the predicate on their key holds.
+     */
+    public async remove(predicate: (key: string) => boolean): Promise<void> {
+        if (!(await fse.pathExists(this.folder))) {
+            return;
+        }
+        for (const file of await fse.readdir(this.folder)) {
+            const filepath: string = path.join(this.folder, file);
+            try {
+                const entry: ICacheEntry<any> = await fse.readJSON(filepath);
+                if (predicate(entry.key)) {
+                    await fse.remove(filepath);
+                }
+            } catch (error) {
+                // corrupted entries are of no use anyway
+                await fse.remove(filepath);
+            }
+        }
+    }
+
+    private getPath(key: string): string {
+        return path.join(this.folder, `${md5(key)}.json`);
+    }
+}
+
+export function isExpired(entry: ICacheEntry<any>, ttlMinutes: number): boolean {
+    return Date.now() - entry.timestamp >= ttlMinutes * 60 * 1000;
+}
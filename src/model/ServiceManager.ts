@@ -1,13 +1,16 @@
 // Copyright (c) Microsoft Corporation. All rights reserved.
 // Licensed under the MIT license.
 
+import * as path from "path";
 import { URL } from "url";
-import { IDependency, IStarters } from ".";
+import { AttributeType, ICustomAttribute, IDependency, IStarters, ITopLevelAttribute } from ".";
 import { IHandlerItem } from "../handler/HandlerInterfaces";
 import { downloadFile } from "../Utils";
+import { HttpError } from "../Utils/error";
 import { matchRange } from "../Utils/VersionHelper";
 import { DependencyGroup, Identifiable, MatadataType, Metadata } from "./Metadata";
-import { Progress, window } from "coc.nvim";
+import { ICacheEntry, isExpired, MetadataCache } from "./MetadataCache";
+import { Progress, window, workspace } from "coc.nvim";
 
 /**
  * Prefer v2.2 and fallback to v2.1
@@ -15,14 +18,80 @@ import { Progress, window } from "coc.nvim";
  */
 const METADATA_HEADERS = { Accept: "application/vnd.initializr.v2.2+json,application/vnd.initializr.v2.1+json;q=0.9" };
 
+const DEFAULT_CACHE_TTL: number = 1440;
+// time in milliseconds during which background lookups do not request a service again after it could not be reached
+const UNREACHABLE_RETRY_DELAY: number = 5 * 60 * 1000;
+
+// top level attributes handled by dedicated steps of the wizard, or derived from other values
+const KNOWN_ATTRIBUTES: string[] = [
+    "_links",
+    "dependencies",
+    "type",
+    "packaging",
+    "javaVersion",
+    "language",
+    "bootVersion",
+    "groupId",
+    "artifactId",
+    "version",
+    "name",
+    "description",
+    "packageName"
+];
+const CUSTOM_ATTRIBUTE_TYPES: string[] = [AttributeType.text, AttributeType.single, AttributeType.multi];
+
+// metadata as parsed from the response, including the top level attributes not modelled by Metadata
+type MetadataResponse = Metadata & { [id: string]: ITopLevelAttribute | undefined };
+
 class ServiceManager {
-    private readonly metadataMap: Map<string, Metadata> = new Map();
+    private readonly metadataMap: Map<string, MetadataResponse> = new Map();
+    private cache: MetadataCache | undefined;
+    // time the service could not be reached by a background lookup, by service url
+    private readonly unreachableSince: Map<string, number> = new Map();
 
-    public async getItems<T extends Identifiable>(serviceUrl: string, type: MatadataType): Promise<Array<IHandlerItem<T>>> {
-        const metadata = await this.ensureMetadata(serviceUrl);
-        if (!metadata) {
-            throw new Error("Failed to fetch metadata.");
+    public initialize(storagePath: string): void {
+        this.cache = new MetadataCache(path.join(storagePath, "metadata"));
+    }
+
+    /**
+     * Fetch the metadata of the service regardless of the cache, and drop the cached starters of the service, so they
+     * are downloaded again next time they are needed.
+     */
+    public async refresh(serviceUrl: string): Promise<boolean> {
+        this.metadataMap.delete(serviceUrl);
+        await window.withProgress({ title: `Refreshing resources from ${serviceUrl}...` }, async () => await this.fetch(serviceUrl, true));
+        if (this.metadataMap.get(serviceUrl) === undefined) {
+            return false;
+        }
+        await this.cache?.remove((key) => key.startsWith(this.getStartersUrl(serviceUrl, "")));
+        return true;
+    }
+
+    public async getMetadata(serviceUrl: string): Promise<Metadata> {
+        return await this.getMetadataResponse(serviceUrl);
+    }
+
+    /**
+     * Get the metadata for lookups running in the background, e.g. diagnostics or completion. No progress or error is
+     * shown, and a service which could not be reached is not requested again for a while.
+     * @returns undefined when the metadata is not available.
+     */
+    public async getMetadataQuietly(serviceUrl: string): Promise<Metadata | undefined> {
+        const metadata: Metadata | undefined = this.metadataMap.get(serviceUrl);
+        if (metadata !== undefined) {
+            return metadata;
+        }
+        try {
+            const fetched: MetadataResponse = await this.fetchJson<MetadataResponse>(serviceUrl, false, serviceUrl);
+            this.metadataMap.set(serviceUrl, fetched);
+            return fetched;
+        } catch (error) {
+            return undefined;
         }
+    }
+
+    public async getItems<T extends Identifiable>(serviceUrl: string, type: MatadataType): Promise<Array<IHandlerItem<T>>> {
+        const metadata: Metadata = await this.getMetadata(serviceUrl);
         let defaultLabel: string | undefined;
         let values: any[];
         switch (type) {
@@ -42,6 +111,10 @@ class ServiceManager {
                 defaultLabel = metadata.packaging.default;
                 values = metadata.packaging.values;
                 break;
+            case MatadataType.TYPE:
+                defaultLabel = metadata.type.default;
+                values = metadata.type.values;
+                break;
             default:
                 throw new Error("Invalid metadata type.");
         }
@@ -52,16 +125,15 @@ class ServiceManager {
                 return sortedValues.map((v) => ({ value: v, label: v.name }));
             case MatadataType.JAVAVERSION:
                 return sortedValues.map((v) => ({ value: v, label: v.name }));
+            case MatadataType.TYPE:
+                return sortedValues.map((v) => ({ value: v, label: v.name, description: v.description }));
             default:
                 return sortedValues.map((v) => ({ label: v.name }));
         }
     }
 
     public async getAvailableDependencies(serviceUrl: string, bootVersion: string): Promise<IDependency[]> {
-        const metadata = await this.ensureMetadata(serviceUrl);
-        if (!metadata) {
-            throw new Error("Failed to fetch metadata.");
-        }
+        const metadata: Metadata = await this.getMetadata(serviceUrl);
 
         const groups: DependencyGroup[] = metadata.dependencies.values;
         const ret: IDependency[] = [];
@@ -77,20 +149,50 @@ class ServiceManager {
         return ret;
     }
 
+    /**
+     * Get the top level attributes of the metadata which are not known to the wizard, in the order of the response.
+     */
+    public async getCustomAttributes(serviceUrl: string): Promise<ICustomAttribute[]> {
+        const metadata: { [id: string]: ITopLevelAttribute | undefined } = await this.getMetadataResponse(serviceUrl);
+        const ret: ICustomAttribute[] = [];
+        for (const [id, attribute] of Object.entries(metadata)) {
+            if (attribute !== undefined && !KNOWN_ATTRIBUTES.includes(id) && CUSTOM_ATTRIBUTE_TYPES.includes(attribute.type)) {
+                ret.push({ id, ...attribute });
+            }
+        }
+        return ret;
+    }
+
     /**
      * @deprecated `dependencies` endpoint will be removed from metadata v3
      * This function returns information needed for current implementation of "add starters", e.g. gid/aid/repository/bom etc.
      * Should be removed in future refactoring.
      */
     public async getStarters(serviceUrl: string, bootVersion: string): Promise<IStarters> {
-        const url = new URL(serviceUrl);
-        url.pathname = "/dependencies";
-        url.search = `?bootVersion=${bootVersion}`;
-        const rawJSONString: string = await downloadFile(url.toString(), true, METADATA_HEADERS);
-        return JSON.parse(rawJSONString);
+        return await this.fetchJson<IStarters>(this.getStartersUrl(serviceUrl, bootVersion));
+    }
+
+    /**
+     * Get the starters like getMetadataQuietly gets the metadata.
+     * @returns undefined when the starters are not available.
+     */
+    public async getStartersQuietly(serviceUrl: string, bootVersion: string): Promise<IStarters | undefined> {
+        try {
+            return await this.fetchJson<IStarters>(this.getStartersUrl(serviceUrl, bootVersion), false, serviceUrl);
+        } catch (error) {
+            return undefined;
+        }
+    }
+
+    private async getMetadataResponse(serviceUrl: string): Promise<MetadataResponse> {
+        const metadata: MetadataResponse | undefined = await this.ensureMetadata(serviceUrl);
+        if (!metadata) {
+            throw new Error("Failed to fetch metadata.");
+        }
+        return metadata;
     }
 
-    private async ensureMetadata(serviceUrl: string): Promise<Metadata | undefined> {
+    private async ensureMetadata(serviceUrl: string): Promise<MetadataResponse | undefined> {
         return await window.withProgress(
             { title: `Fetching resources from ${serviceUrl}...` },
             async (progress: Progress<{ message?: string }>) => {
@@ -103,15 +205,57 @@ class ServiceManager {
         );
     }
 
-    private async fetch(serviceUrl: string): Promise<void> {
+    private async fetch(serviceUrl: string, ignoreCache?: boolean): Promise<void> {
         try {
-            const rawJSONString: string = await downloadFile(serviceUrl, true, METADATA_HEADERS);
-            const metadata = JSON.parse(rawJSONString);
+            const metadata: MetadataResponse = await this.fetchJson<MetadataResponse>(serviceUrl, ignoreCache);
             this.metadataMap.set(serviceUrl, metadata);
         } catch (error) {
             window.showErrorMessage((error as Error).message);
         }
     }
+
+    /**
+     * Responses are served from the cache until they expire. When the service can not be reached, expired responses are
+     * still used rather than failing, to allow creating projects while offline.
+     * @param quietFor url of the service the lookup runs in the background for, no warning is shown then.
+     */
+    private async fetchJson<T>(targetUrl: string, ignoreCache?: boolean, quietFor?: string): Promise<T> {
+        const ttl: number = workspace.getConfiguration("spring.initializr").get<number>("metadataCacheTtl", DEFAULT_CACHE_TTL);
+        const cached: ICacheEntry<T> | undefined = await this.cache?.read<T>(targetUrl);
+        const unreachableSince: number | undefined = quietFor !== undefined ? this.unreachableSince.get(quietFor) : undefined;
+        const unreachable: boolean = unreachableSince !== undefined && Date.now() - unreachableSince < UNREACHABLE_RETRY_DELAY;
+        if (cached !== undefined && !ignoreCache && (unreachable || !isExpired(cached, ttl))) {
+            return cached.data;
+        } else if (unreachable) {
+            throw new Error(`Unable to reach ${quietFor}.`);
+        }
+        try {
+            const rawJSONString: string = await downloadFile(targetUrl, true, METADATA_HEADERS);
+            const data: T = JSON.parse(rawJSONString);
+            await this.cache?.write(targetUrl, data);
+            return data;
+        } catch (error) {
+            // the service did answer when rejecting the request, e.g. for a boot version it does not support any more
+            if (quietFor !== undefined && !(error instanceof HttpError && error.statusCode < 500)) {
+                this.unreachableSince.set(quietFor, Date.now());
+            }
+            if (cached === undefined || ignoreCache) {
+                throw error;
+            } else if (quietFor !== undefined) {
+                return cached.data;
+            }
+            const date: string = new Date(cached.timestamp).toLocaleString();
+            window.showWarningMessage(`Unable to reach ${targetUrl}, using cached data from ${date}. ${(error as Error).message}`);
+            return cached.data;
+        }
+    }
+
+    private getStartersUrl(serviceUrl: string, bootVersion: string): string {
+        const url = new URL(serviceUrl);
+        url.pathname = "/dependencies";
+        url.search = `?bootVersion=${bootVersion}`;
+        return url.toString();
+    }
 }
 
 export const serviceManager = new ServiceManager();
@@ -0,0 +1,126 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license.
+
+import { getBlockContent, getBlocksByName, GradleBlockName, IGradleBlock } from "../../Utils/gradle/lexer";
+
+export interface IGradleArtifact {
+    groupId: string;
+    artifactId: string;
+    version?: string;
+    configuration?: string;
+    // offsets of the declaration in the build script, the end offset is exclusive
+    startIndex?: number;
+    endIndex?: number;
+}
+
+// id 'org.springframework.boot' version '3.2.0' or id("org.springframework.boot") version "3.2.0"
+const BOOT_PLUGIN: RegExp = /id\s*\(?\s*["']org\.springframework\.boot["']\s*\)?\s*version\s*\(?\s*["']((?:\$\{[^}]*\}|[^"'])+)["']/;
+// legacy buildscript { dependencies { classpath("org.springframework.boot:spring-boot-gradle-plugin:2.7.0") } }
+const BOOT_GRADLE_PLUGIN: RegExp = /["']org\.springframework\.boot:spring-boot-gradle-plugin:([^"']+)["']/;
+// implementation 'gid:aid:ver' or implementation("gid:aid:ver")
+const DEPENDENCY_NOTATION: RegExp = /([A-Za-z_]\w*)\s*\(?\s*["']([^:"'\s]+):([^:"'\s]+)(?::([^"'\s]+))?["']/;
+// implementation group: 'gid', name: 'aid'
+const DEPENDENCY_MAP_NOTATION: RegExp = /([A-Za-z_]\w*)\s*\(?\s*group\s*[:=]\s*["']([^"']+)["']\s*,\s*name\s*[:=]\s*["']([^"']+)["']/;
+// mavenBom 'gid:aid:ver' or mavenBom("gid:aid:ver")
+const MAVEN_BOM: RegExp = /mavenBom\s*\(?\s*["']([^:"'\s]+):([^:"'\s]+)(?::((?:\$\{[^}]*\}|[^"'])+))?["']/;
+// maven { url 'url' }, maven { url = uri("url") }, maven { setUrl("url") } or maven("url")
+const MAVEN_REPOSITORY: RegExp = /(?:\burl\s*=?\s*\(?|setUrl\s*\(|maven\s*\()\s*(?:uri\s*\(\s*)?["']([^"']+)["']/;
+
+export function isKotlinDsl(fileName: string): boolean {
+    return fileName.toLowerCase().endsWith(".kts");
+}
+
+/**
+ * Get the version of the `org.springframework.boot` plugin applied in the build script.
+ * @param content text of build.gradle or build.gradle.kts
+ * @param properties values of gradle.properties, used to resolve versions declared as properties.
+ * @returns version of the plugin, or undefined if the plugin is not applied or the version could not be resolved.
+ */
+export function getGradleBootVersion(content: string, properties?: { [key: string]: string }): string | undefined {
+    const m = RegExp(BOOT_PLUGIN).exec(content) || RegExp(BOOT_GRADLE_PLUGIN).exec(content);
+    if (!m) {
+        return undefined;
+    }
+    const version: string = m[1];
+    const ref = RegExp(/^\$\{?(?:property\(\s*")?(\w+)"?\)?\}?$/).exec(version);
+    if (!ref) {
+        return version;
+    }
+    const name: string = ref[1];
+    const declared = RegExp(`(?:set\\(\\s*["']${name}["']\\s*,|\\b${name}\\s*=)\\s*["']([^"']+)["']`).exec(content);
+    return declared ? declared[1] : properties?.[name];
+}
+
+/**
+ * Get artifacts declared in the top level `dependencies` blocks of the build script.
+ */
+export function getGradleDependencies(content: string): IGradleArtifact[] {
+    const ret: IGradleArtifact[] = [];
+    for (const block of getBlocksByName(content, GradleBlockName.Dependencies)) {
+        const blockContent: string = getBlockContent(content, block);
+        const offset: number = block.openIndex + 1;
+        for (const m of execAll(DEPENDENCY_NOTATION, blockContent)) {
+            ret.push({ configuration: m[1], groupId: m[2], artifactId: m[3], version: m[4], ...getIndices(m, offset) });
+        }
+        for (const m of execAll(DEPENDENCY_MAP_NOTATION, blockContent)) {
+            ret.push({ configuration: m[1], groupId: m[2], artifactId: m[3], ...getIndices(m, offset) });
+        }
+    }
+    return ret;
+}
+
+/**
+ * Get boms imported in `dependencyManagement { imports { ... } }` of the build script.
+ */
+export function getGradleBoms(content: string): IGradleArtifact[] {
+    const ret: IGradleArtifact[] = [];
+    for (const block of getGradleImportBlocks(content)) {
+        for (const m of execAll(MAVEN_BOM, getBlockContent(content, block))) {
+            ret.push({ groupId: m[1], artifactId: m[2], version: m[3], ...getIndices(m, block.openIndex + 1) });
+        }
+    }
+    return ret;
+}
+
+/**
+ * Get urls of the maven repositories declared in the top level `repositories` blocks of the build script.
+ */
+export function getGradleRepositories(content: string): string[] {
+    return getBlocksByName(content, GradleBlockName.Repositories).flatMap((block) =>
+        execAll(MAVEN_REPOSITORY, getBlockContent(content, block)).map((m) => m[1])
+    );
+}
+
+export function getGradleImportBlocks(content: string): IGradleBlock[] {
+    return getBlocksByName(content, GradleBlockName.DependencyManagement).flatMap((block) =>
+        getBlocksByName(content, GradleBlockName.Imports, block)
+    );
+}
+
+/**
+ * Parse the text of gradle.properties into a key value map.
+ */
+export function parseGradleProperties(content: string): { [key: string]: string } {
+    const ret: { [key: string]: string } = {};
+    for (const line of content.split(/\r?\n/)) {
+        const m = RegExp(/^\s*([^#!\s=:]+)\s*[=:]\s*(.*?)\s*$/).exec(line);
+        if (m) {
+            ret[m[1]] = m[2];
+        }
+    }
+    return ret;
+}
+
+function execAll(pattern: RegExp, text: string): RegExpExecArray[] {
+    const ret: RegExpExecArray[] = [];
+    const re: RegExp = new RegExp(pattern.source, "g");
+    let m: RegExpExecArray | null;
+    while ((m = re.exec(text)) !== null) {
+        ret.push(m);
+    }
+    return ret;
+}
+
+function getIndices(m: RegExpExecArray, offset: number): { startIndex: number; endIndex: number } {
+    return { startIndex: offset + m.index, endIndex: offset + m.index + m[0].length };
+}
@@ -1,6 +1,7 @@
 // Copyright (c) Microsoft Corporation. All rights reserved.
 // Licensed under the MIT license.
 
+export * from "./gradle/BuildGradle";
 export * from "./Interfaces";
 export * from "./pomxml/BomNode";
 export * from "./pomxml/DependencyNode";
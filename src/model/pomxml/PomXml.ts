@@ -64,6 +64,16 @@ export function addBomNode(projectNode: XmlNode, node: IBomNode): void {
     }
 }
 
+export function getBomNodes(projectNode: XmlNode): IBomNode[] {
+    const dependencyManagementNode: XmlNode = getNode(projectNode, "dependencyManagement", {});
+    const dependenciesNode: any = getNode(dependencyManagementNode, "dependencies", {});
+    if (dependenciesNode.dependency) {
+        return [].concat(dependenciesNode.dependency).filter((elem: IBomNode) => getNode(elem, "scope") === "import");
+    } else {
+        return [];
+    }
+}
+
 export function addRepositoryNode(projectNode: XmlNode, node: IRepositoryNode): void {
     const repositoriesNode: any = ensureNode(projectNode, "repositories", {});
     if (isNullOrEmptyNode(repositoriesNode.repository)) {
@@ -85,6 +95,14 @@ export function getBootVersion(projectNode: XmlNode): string | undefined {
     return bootVersion;
 }
 
+/**
+ * Get value of the property declared under <properties> node.
+ */
+export function getPropertyValue(projectNode: XmlNode, name: string): string | undefined {
+    const propertiesNode: XmlNode = getNode(projectNode, "properties", {});
+    return getNode(propertiesNode, name);
+}
+
 /**
  * Get value of <relativePath> under <parent> node.
  * @param projectNode xml object of <project> node.
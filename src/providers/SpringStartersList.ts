@@ -0,0 +1,123 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license.
+
+import * as coc from "coc.nvim";
+import * as path from "path";
+import { applyStarterChanges, getExistingStarterIds, searchForBootParentPom } from "../handler/AddStartersHandler";
+import { getStarterLinks, openStarterDocs } from "../handler/StarterDocsHandler";
+import { getConfiguredServiceUrl } from "../handler/utils";
+import { IDependency, IStarters, serviceManager } from "../model";
+import { Metadata } from "../model/Metadata";
+import { UserError } from "../Utils/error";
+import { getChildText, XmlTagName } from "../Utils/xml/lexer";
+import { matchRange } from "../Utils/VersionHelper";
+import { getDependencyElements } from "./pomStarters";
+
+interface IStarterItemData {
+    dependency: IDependency;
+    compatible: boolean;
+    inProject: boolean;
+}
+
+// the pom the list was opened for, actions apply to it
+interface IListTarget {
+    uri: coc.Uri;
+    bootVersion: string;
+    starters: IStarters;
+}
+
+/**
+ * Lists the starters of the service for the Spring Boot version of the active pom.xml, opened by
+ * `:CocList springStarters`. Marked starters are added or removed at once.
+ */
+export class SpringStartersList extends coc.BasicList {
+    public readonly name: string = "springStarters";
+    public readonly defaultAction: string = "add";
+    public readonly description: string = "Spring Boot starters of the active pom.xml";
+    private target: IListTarget | undefined;
+
+    constructor() {
+        super();
+        this.addAction("preview", async (item: coc.ListItem, context: coc.ListContext) => this.previewStarter(item, context), {
+            persist: true
+        });
+        this.addMultipleAction("add", async (items: coc.ListItem[]) => this.updateStarters(items, true), { reload: true });
+        this.addMultipleAction("remove", async (items: coc.ListItem[]) => this.updateStarters(items, false), { reload: true });
+        this.addAction("docs", async (item: coc.ListItem) => {
+            await openStarterDocs((item.data as IStarterItemData).dependency, this.target?.bootVersion);
+        });
+    }
+
+    public async loadItems(context: coc.ListContext): Promise<coc.ListItem[]> {
+        const document: coc.Document | undefined = coc.workspace.getDocument(context.buffer.id);
+        const uri: coc.Uri | undefined = document && coc.Uri.parse(document.uri);
+        if (document === undefined || uri === undefined || path.basename(uri.fsPath).toLowerCase() !== "pom.xml") {
+            throw new UserError("Open a pom.xml to list its starters.");
+        }
+        const bootVersion: string | undefined = (await searchForBootParentPom(uri))?.bootVersion;
+        if (!bootVersion) {
+            throw new UserError("Not within a valid Spring Boot project.");
+        }
+
+        const serviceUrl: string = getConfiguredServiceUrl();
+        const metadata: Metadata = await serviceManager.getMetadata(serviceUrl);
+        const starters: IStarters = await serviceManager.getStarters(serviceUrl, bootVersion);
+        this.target = { uri, bootVersion, starters };
+
+        const deps: string[] = getDependencyElements(document.textDocument.getText()).map(
+            (node) => `${getChildText(node, XmlTagName.GroupId)}:${getChildText(node, XmlTagName.ArtifactId)}`
+        );
+        const existingIds: string[] = getExistingStarterIds(starters, deps);
+        return metadata.dependencies.values.flatMap((group) =>
+            group.values.map((dep) => {
+                const data: IStarterItemData = {
+                    dependency: { group: group.name, ...dep },
+                    compatible: !dep.versionRange || matchRange(bootVersion, dep.versionRange),
+                    inProject: existingIds.includes(dep.id)
+                };
+                const status: string = data.inProject ? "added" : data.compatible ? "" : `requires ${dep.versionRange}`;
+                return {
+                    label: [`${data.inProject ? "*" : " "} ${dep.name}`, group.name, status, dep.description ?? ""].join("\t"),
+                    filterText: `${dep.name} ${dep.id} ${group.name}`,
+                    data
+                };
+            })
+        );
+    }
+
+    private async previewStarter(item: coc.ListItem, context: coc.ListContext): Promise<void> {
+        const { dependency, compatible, inProject } = item.data as IStarterItemData;
+        const bootVersion: string | undefined = this.target?.bootVersion;
+        const lines: string[] = [`# ${dependency.name}`, "", `${dependency.id} (${dependency.group})`, ""];
+        if (inProject) {
+            lines.push("Declared in the project.", "");
+        } else if (!compatible) {
+            lines.push(`Requires Spring Boot ${dependency.versionRange}, the project uses ${bootVersion}.`, "");
+        }
+        if (dependency.description) {
+            lines.push(dependency.description, "");
+        }
+        lines.push(...getStarterLinks(dependency, bootVersion).map((link) => `- ${link.title ?? link.type}: ${link.href}`));
+        await this.preview({ bufname: "springStarters", filetype: "markdown", lines }, context);
+    }
+
+    private async updateStarters(items: coc.ListItem[], add: boolean): Promise<void> {
+        if (this.target === undefined) {
+            return;
+        }
+        const { uri, bootVersion, starters } = this.target;
+        // starters are only provided for the boot versions they are compatible with
+        const selected: IStarterItemData[] = items.map((item) => item.data as IStarterItemData).filter((data) => data.inProject !== add);
+        const unavailable: IStarterItemData[] = selected.filter((data) => starters.dependencies[data.dependency.id] === undefined);
+        if (unavailable.length > 0) {
+            const names: string = unavailable.map((data) => data.dependency.name).join(", ");
+            coc.window.showWarningMessage(`Skipped ${names}, not available for Spring Boot ${bootVersion}.`);
+        }
+        const ids: string[] = selected.filter((data) => !unavailable.includes(data)).map((data) => data.dependency.id);
+        if (ids.length === 0) {
+            coc.window.showInformationMessage("No changes.");
+            return;
+        }
+        await applyStarterChanges(uri, bootVersion, starters, add ? ids : [], add ? [] : ids);
+    }
+}
@@ -0,0 +1,161 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license.
+
+import * as coc from "coc.nvim";
+import { Element } from "domhandler";
+import { uniq } from "lodash";
+import { getExistingStarterIds, searchForBootParentPom } from "../handler/AddStartersHandler";
+import { getConfiguredServiceUrl } from "../handler/utils";
+import { IBom, IMavenId, IRepositoryNode, IStarters, RepositoryNode, serviceManager } from "../model";
+import { Dependency, DependencyGroup, Metadata } from "../model/Metadata";
+import { getDeletionRange } from "../Utils/documentHelper";
+import { matchRange } from "../Utils/VersionHelper";
+import { getBomImportEdits, getRemovalEdits, getRepositoryEdits } from "../Utils/xml";
+import { getChildText, XmlTagName } from "../Utils/xml/lexer";
+import {
+    findStarter,
+    findStarterId,
+    getBomElements,
+    getCoordinateEdits,
+    getDependencyElementAt,
+    getDependencyElements,
+    getEol
+} from "./pomStarters";
+
+/**
+ * Quick fixes for the starter declared by the <dependency> under the cursor in pom.xml: import its bom, declare its
+ * repository, remove it, or replace it with the same starter as listed for the Spring Boot version of the project.
+ */
+export class StarterCodeActionProvider implements coc.CodeActionProvider {
+    public async provideCodeActions(document: coc.TextDocument, range: coc.Range): Promise<coc.CodeAction[]> {
+        const node: Element | undefined = getDependencyElementAt(document.getText(), document.offsetAt(range.start));
+        if (node === undefined) {
+            return [];
+        }
+        try {
+            return await getStarterActions(document, node);
+        } catch (error) {
+            // no actions while the pom is not well-formed
+            return [];
+        }
+    }
+}
+
+async function getStarterActions(document: coc.TextDocument, node: Element): Promise<coc.CodeAction[]> {
+    const bootVersion: string | undefined = (await searchForBootParentPom(coc.Uri.parse(document.uri)))?.bootVersion;
+    if (!bootVersion) {
+        return [];
+    }
+    const serviceUrl: string = getConfiguredServiceUrl();
+    const metadata: Metadata | undefined = await serviceManager.getMetadataQuietly(serviceUrl);
+    if (metadata === undefined) {
+        return [];
+    }
+    const starter = await findStarter(serviceUrl, [bootVersion, metadata.bootVersion.default], node);
+    const group: DependencyGroup | undefined = metadata.dependencies.values.find((g) => g.values.some((dep) => dep.id === starter?.id));
+    const dependency: Dependency | undefined = group?.values.find((dep) => dep.id === starter?.id);
+    if (starter === undefined || group === undefined || dependency === undefined) {
+        return [];
+    }
+    const { tabSize, insertSpaces } = await coc.workspace.getFormatOptions(document.uri);
+    const indent: string = insertSpaces ? " ".repeat(tabSize) : "\t";
+    const createAction = (title: string, edits: coc.TextEdit[]): coc.CodeAction => ({
+        title,
+        kind: coc.CodeActionKind.QuickFix,
+        edit: { changes: { [document.uri]: edits } }
+    });
+
+    const actions: coc.CodeAction[] = [];
+    const compatible: boolean = !dependency.versionRange || matchRange(bootVersion, dependency.versionRange);
+    const { starters } = starter;
+    const mavenId: IMavenId = starters.dependencies[starter.id];
+    // boms and repositories of incompatible starters are the ones of another boot version, they are replaced instead
+    if (compatible) {
+        const bom: IBom | undefined = mavenId.bom ? starters.boms?.[mavenId.bom] : undefined;
+        const bomEdits: coc.TextEdit[] = bom ? getBomImportEdits(document, [bom], indent, getEol()) : [];
+        if (bom !== undefined && bomEdits.length > 0) {
+            actions.push(createAction(`Add missing BOM import ${bom.groupId}:${bom.artifactId}`, bomEdits));
+        }
+        const repositoryEdits: coc.TextEdit[] = getRepositoryEdits(document, getRequiredRepositories(starters, mavenId), indent, getEol());
+        if (repositoryEdits.length > 0) {
+            actions.push(createAction("Add required repository", repositoryEdits));
+        }
+    }
+    actions.push(
+        createAction(`Remove starter ${dependency.name}`, [
+            coc.TextEdit.del(getDeletionRange(document, node.startIndex as number, (node.endIndex as number) + 1))
+        ])
+    );
+
+    // the starter as listed for the boot version of the project, e.g. with another version or managed by another bom
+    const projectStarters: IStarters | undefined = await serviceManager.getStartersQuietly(serviceUrl, bootVersion);
+    const projectMavenId: IMavenId | undefined = projectStarters?.dependencies?.[starter.id];
+    if (projectStarters !== undefined && projectMavenId !== undefined && !isDeclaredAs(node, projectMavenId)) {
+        const oldBom: IBom | undefined = mavenId.bom ? starters.boms?.[mavenId.bom] : undefined;
+        const newBom: IBom | undefined = projectMavenId.bom ? projectStarters.boms?.[projectMavenId.bom] : undefined;
+        actions.push(
+            createAction(`Replace with ${dependency.name} for Spring Boot ${bootVersion}`, [
+                ...getCoordinateEdits(document, node, projectMavenId, indent),
+                ...getBomReplacementEdits(document, node, starters, oldBom, newBom, indent)
+            ])
+        );
+    }
+    return actions;
+}
+
+function isDeclaredAs(node: Element, mavenId: IMavenId): boolean {
+    return (
+        getChildText(node, XmlTagName.GroupId) === mavenId.groupId &&
+        getChildText(node, XmlTagName.ArtifactId) === mavenId.artifactId &&
+        getChildText(node, XmlTagName.Version) === mavenId.version
+    );
+}
+
+/**
+ * Get the edits importing the bom of the replacing starter instead of the one of the replaced starter. The import of
+ * the replaced bom is updated in place, or removed when other starters of the project do not use it.
+ */
+function getBomReplacementEdits(
+    document: coc.TextDocument,
+    node: Element,
+    starters: IStarters,
+    oldBom: IBom | undefined,
+    newBom: IBom | undefined,
+    indent: string
+): coc.TextEdit[] {
+    const toGa = (artifact: { groupId?: string; artifactId?: string }) => `${artifact.groupId}:${artifact.artifactId}`;
+    const getElementGa = (elem: Element) => `${getChildText(elem, XmlTagName.GroupId)}:${getChildText(elem, XmlTagName.ArtifactId)}`;
+    const bomNodes: Element[] = getBomElements(document.getText());
+    const oldBomNode: Element | undefined = oldBom && bomNodes.find((bomNode) => getElementGa(bomNode) === toGa(oldBom));
+    if (oldBom === undefined || oldBomNode === undefined) {
+        return newBom ? getBomImportEdits(document, [newBom], indent, getEol()) : [];
+    }
+    const sameBom: boolean = newBom !== undefined && toGa(newBom) === toGa(oldBom);
+    const usedBoms: string[] = getDependencyElements(document.getText())
+        .filter((elem) => elem.startIndex !== node.startIndex)
+        .map((elem) => findStarterId(starters.dependencies ?? {}, elem))
+        .map((id) => (id !== undefined ? starters.dependencies[id].bom : undefined))
+        .filter((bomId): bomId is string => bomId !== undefined && starters.boms?.[bomId] !== undefined)
+        .map((bomId) => toGa(starters.boms[bomId]));
+    if (!sameBom && usedBoms.includes(toGa(oldBom))) {
+        return newBom ? getBomImportEdits(document, [newBom], indent, getEol()) : [];
+    }
+    const newBomImported: boolean = newBom !== undefined && bomNodes.some((bomNode) => getElementGa(bomNode) === toGa(newBom));
+    if (newBom !== undefined && (sameBom || !newBomImported)) {
+        return getCoordinateEdits(document, oldBomNode, { ...newBom, scope: "import" }, indent);
+    }
+    return getRemovalEdits(document, [], [oldBom]);
+}
+
+/**
+ * Get the repositories the starter and its bom are published to, e.g. for milestones.
+ */
+function getRequiredRepositories(starters: IStarters, mavenId: IMavenId): IRepositoryNode[] {
+    const bomRepositories: string[] = (mavenId.bom && starters.boms?.[mavenId.bom]?.repositories) || [];
+    return uniq([mavenId.repository, ...bomRepositories])
+        .filter((id): id is string => id !== undefined && starters.repositories?.[id] !== undefined)
+        .map((id) => {
+            const { name, url, snapshotEnabled } = starters.repositories[id];
+            return new RepositoryNode(id, name, url, snapshotEnabled).node;
+        });
+}
@@ -0,0 +1,110 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license.
+
+import { Element } from "domhandler";
+import * as coc from "coc.nvim";
+import { searchForBootParentPom } from "../handler/AddStartersHandler";
+import { getConfiguredServiceUrl } from "../handler/utils";
+import { IMavenId, IStarters, serviceManager } from "../model";
+import { Metadata } from "../model/Metadata";
+import { matchRange } from "../Utils/VersionHelper";
+import { getBomImportEdits } from "../Utils/xml";
+import { getChildText, XmlTagName } from "../Utils/xml/lexer";
+import { getCoordinateEdits, getDependencyElementAt, getDependencyElements, getEol } from "./pomStarters";
+
+// the coordinate being typed, up to the cursor
+const COORDINATE_PATTERN: RegExp = /<(groupId|artifactId)>([^<\s]*)$/;
+
+// where the dependency being completed is located in the document
+interface ICompletionTarget {
+    node: Element;
+    tag: string;
+    // range of the value of the element under the cursor
+    valueRange: coc.Range;
+    closed: boolean;
+}
+
+/**
+ * Completes starters of the service inside <groupId> or <artifactId> of a <dependency> in pom.xml. Accepting a starter
+ * fills in the whole dependency, and imports the bom it needs.
+ */
+export class StarterCompletionProvider implements coc.CompletionItemProvider {
+    public async provideCompletionItems(document: coc.TextDocument, position: coc.Position): Promise<coc.CompletionItem[]> {
+        const target: ICompletionTarget | undefined = getCompletionTarget(document, position);
+        if (target === undefined) {
+            return [];
+        }
+        try {
+            return await getStarterItems(document, target);
+        } catch (error) {
+            // no completion while the pom is not well-formed
+            return [];
+        }
+    }
+}
+
+function getCompletionTarget(document: coc.TextDocument, position: coc.Position): ICompletionTarget | undefined {
+    const lineText: string = document.getText(coc.Range.create(position.line, 0, position.line + 1, 0)).replace(/\r?\n$/, "");
+    const match: RegExpExecArray | null = COORDINATE_PATTERN.exec(lineText.substring(0, position.character));
+    const node: Element | undefined = match ? getDependencyElementAt(document.getText(), document.offsetAt(position)) : undefined;
+    if (match === null || node === undefined) {
+        return undefined;
+    }
+    const tag: string = match[1];
+    const textAfter: string = lineText.substring(position.character);
+    const valueAfter: string = (/^[^<\s]*/.exec(textAfter) as RegExpExecArray)[0];
+    return {
+        node,
+        tag,
+        valueRange: coc.Range.create(
+            position.line,
+            position.character - match[2].length,
+            position.line,
+            position.character + valueAfter.length
+        ),
+        closed: textAfter.substring(valueAfter.length).startsWith(`</${tag}>`)
+    };
+}
+
+async function getStarterItems(document: coc.TextDocument, target: ICompletionTarget): Promise<coc.CompletionItem[]> {
+    const bootVersion: string | undefined = (await searchForBootParentPom(coc.Uri.parse(document.uri)))?.bootVersion;
+    if (!bootVersion) {
+        return [];
+    }
+    const serviceUrl: string = getConfiguredServiceUrl();
+    const metadata: Metadata | undefined = await serviceManager.getMetadataQuietly(serviceUrl);
+    const starters: IStarters | undefined = await serviceManager.getStartersQuietly(serviceUrl, bootVersion);
+    if (metadata === undefined || starters === undefined) {
+        return [];
+    }
+    const { tabSize, insertSpaces } = await coc.workspace.getFormatOptions(document.uri);
+    const indent: string = insertSpaces ? " ".repeat(tabSize) : "\t";
+
+    // starters declared by the other dependencies are not offered again
+    const existingDeps: string[] = getDependencyElements(document.getText())
+        .filter((node) => node.startIndex !== target.node.startIndex)
+        .map((node) => `${getChildText(node, XmlTagName.GroupId)}:${getChildText(node, XmlTagName.ArtifactId)}`);
+    return metadata.dependencies.values.flatMap((group) =>
+        group.values
+            .filter((dep) => !dep.versionRange || matchRange(bootVersion, dep.versionRange))
+            .filter((dep) => starters.dependencies[dep.id] !== undefined)
+            .filter((dep) => !existingDeps.includes(`${starters.dependencies[dep.id].groupId}:${starters.dependencies[dep.id].artifactId}`))
+            .map((dep) => {
+                const mavenId: IMavenId = starters.dependencies[dep.id];
+                const bom = mavenId.bom ? starters.boms?.[mavenId.bom] : undefined;
+                const value: string = target.tag === XmlTagName.GroupId ? mavenId.groupId : mavenId.artifactId;
+                return {
+                    label: target.tag === XmlTagName.GroupId ? `${mavenId.groupId}:${mavenId.artifactId}` : mavenId.artifactId,
+                    kind: coc.CompletionItemKind.Module,
+                    detail: `${dep.name} (${group.name})`,
+                    documentation: dep.description,
+                    filterText: value,
+                    textEdit: coc.TextEdit.replace(target.valueRange, target.closed ? value : `${value}</${target.tag}>`),
+                    additionalTextEdits: [
+                        ...getCoordinateEdits(document, target.node, mavenId, indent, [target.tag]),
+                        ...(bom ? getBomImportEdits(document, [bom], indent, getEol()) : [])
+                    ]
+                };
+            })
+    );
+}
@@ -0,0 +1,95 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license.
+
+import * as coc from "coc.nvim";
+import * as path from "path";
+import { searchForBootParentPom } from "../handler/AddStartersHandler";
+import { getConfiguredServiceUrl } from "../handler/utils";
+import { IMavenId, serviceManager } from "../model";
+import { Dependency, Metadata } from "../model/Metadata";
+import { matchRange } from "../Utils/VersionHelper";
+import { findStarterId, getDependencyElements, getStarterMavenIds } from "./pomStarters";
+
+const DIAGNOSTIC_SOURCE: string = "spring-initializr";
+const VALIDATION_DELAY: number = 500;
+
+/**
+ * Warns about starters declared in pom.xml which are not compatible with the Spring Boot version of the project.
+ */
+export class StarterDiagnosticsProvider implements coc.Disposable {
+    private readonly collection: coc.DiagnosticCollection = coc.languages.createDiagnosticCollection(DIAGNOSTIC_SOURCE);
+    private readonly disposables: coc.Disposable[] = [];
+    private readonly pending: Map<string, NodeJS.Timeout> = new Map();
+
+    constructor() {
+        this.disposables.push(
+            coc.workspace.onDidOpenTextDocument((document) => this.schedule(document.uri)),
+            coc.workspace.onDidChangeTextDocument((event) => this.schedule(event.textDocument.uri)),
+            coc.workspace.onDidCloseTextDocument((document) => this.collection.delete(document.uri))
+        );
+        coc.workspace.textDocuments.forEach((document) => this.schedule(document.uri));
+    }
+
+    public dispose(): void {
+        this.pending.forEach((timer) => clearTimeout(timer));
+        this.pending.clear();
+        this.disposables.forEach((disposable) => disposable.dispose());
+        this.collection.dispose();
+    }
+
+    private schedule(uri: string): void {
+        if (path.basename(coc.Uri.parse(uri).fsPath).toLowerCase() !== "pom.xml") {
+            return;
+        }
+        clearTimeout(this.pending.get(uri));
+        this.pending.set(
+            uri,
+            setTimeout(() => {
+                this.pending.delete(uri);
+                this.validate(uri);
+            }, VALIDATION_DELAY)
+        );
+    }
+
+    private async validate(uri: string): Promise<void> {
+        const document: coc.TextDocument | undefined = coc.workspace.getDocument(uri)?.textDocument;
+        if (document === undefined) {
+            return;
+        }
+        try {
+            this.collection.set(uri, await getStarterDiagnostics(document));
+        } catch (error) {
+            // keep the previous diagnostics, e.g. while the pom is not well-formed during editing
+        }
+    }
+}
+
+async function getStarterDiagnostics(document: coc.TextDocument): Promise<coc.Diagnostic[]> {
+    const bootParent = await searchForBootParentPom(coc.Uri.parse(document.uri));
+    if (bootParent === undefined) {
+        return [];
+    }
+    const { bootVersion } = bootParent;
+    const serviceUrl: string = getConfiguredServiceUrl();
+    const metadata: Metadata | undefined = await serviceManager.getMetadataQuietly(serviceUrl);
+    if (metadata === undefined) {
+        return [];
+    }
+    const mavenIds: { [id: string]: IMavenId } = await getStarterMavenIds(serviceUrl, [bootVersion, metadata.bootVersion.default]);
+    const dependencies: Dependency[] = metadata.dependencies.values.flatMap((group) => group.values);
+
+    const diagnostics: coc.Diagnostic[] = [];
+    for (const node of getDependencyElements(document.getText())) {
+        const id: string | undefined = findStarterId(mavenIds, node);
+        const dependency: Dependency | undefined = dependencies.find((dep) => dep.id === id);
+        if (dependency?.versionRange && !matchRange(bootVersion, dependency.versionRange)) {
+            const range: coc.Range = coc.Range.create(
+                document.positionAt(node.startIndex as number),
+                document.positionAt((node.endIndex as number) + 1)
+            );
+            const message: string = `${dependency.name} (${dependency.id}) requires Spring Boot ${dependency.versionRange}, the project uses ${bootVersion}.`;
+            diagnostics.push(coc.Diagnostic.create(range, message, coc.DiagnosticSeverity.Warning, undefined, DIAGNOSTIC_SOURCE));
+        }
+    }
+    return diagnostics;
+}
@@ -0,0 +1,85 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license.
+
+import * as coc from "coc.nvim";
+import { Element } from "domhandler";
+import * as _ from "lodash";
+import { searchForBootParentPom } from "../handler/AddStartersHandler";
+import { getStarterLinks } from "../handler/StarterDocsHandler";
+import { getConfiguredServiceUrl } from "../handler/utils";
+import { IBom, serviceManager } from "../model";
+import { Dependency, DependencyGroup, Metadata } from "../model/Metadata";
+import { matchRange } from "../Utils/VersionHelper";
+import { findStarter, getDependencyElementAt } from "./pomStarters";
+
+/**
+ * Describes the starter declared by the <dependency> under the cursor in pom.xml, with its compatibility with the
+ * Spring Boot version of the project and links to its documentation.
+ */
+export class StarterHoverProvider implements coc.HoverProvider {
+    public async provideHover(document: coc.TextDocument, position: coc.Position): Promise<coc.Hover | undefined> {
+        const node: Element | undefined = getDependencyElementAt(document.getText(), document.offsetAt(position));
+        if (node === undefined) {
+            return undefined;
+        }
+        try {
+            const lines: string[] | undefined = await getStarterDescription(coc.Uri.parse(document.uri), node);
+            return (
+                lines && {
+                    contents: { kind: coc.MarkupKind.Markdown, value: lines.join("\n").trim() },
+                    range: coc.Range.create(
+                        document.positionAt(node.startIndex as number),
+                        document.positionAt((node.endIndex as number) + 1)
+                    )
+                }
+            );
+        } catch (error) {
+            // no hover while the pom is not well-formed
+            return undefined;
+        }
+    }
+}
+
+async function getStarterDescription(uri: coc.Uri, node: Element): Promise<string[] | undefined> {
+    const serviceUrl: string = getConfiguredServiceUrl();
+    const metadata: Metadata | undefined = await serviceManager.getMetadataQuietly(serviceUrl);
+    if (metadata === undefined) {
+        return undefined;
+    }
+    const bootVersion: string | undefined = (await searchForBootParentPom(uri))?.bootVersion;
+
+    // starters are only listed for the boot versions they are compatible with, incompatible ones are looked up for the
+    // default version instead
+    const starter = await findStarter(serviceUrl, [bootVersion, metadata.bootVersion.default], node);
+    const id: string | undefined = starter?.id;
+    const group: DependencyGroup | undefined = metadata.dependencies.values.find((g) => g.values.some((dep) => dep.id === id));
+    const dependency: Dependency | undefined = group?.values.find((dep) => dep.id === id);
+    if (starter === undefined || group === undefined || dependency === undefined) {
+        return undefined;
+    }
+
+    const lines: string[] = [`**${dependency.name}** (${group.name})`, ""];
+    if (dependency.description) {
+        lines.push(dependency.description, "");
+    }
+    if (dependency.versionRange) {
+        const compatibility: string = !bootVersion
+            ? ""
+            : matchRange(bootVersion, dependency.versionRange)
+              ? `, compatible with ${bootVersion}`
+              : `, not compatible with ${bootVersion} used by the project`;
+        lines.push(`Spring Boot: \`${dependency.versionRange}\`${compatibility}`, "");
+    }
+    const { starters } = starter;
+    const bomId: string | undefined = starters.dependencies[starter.id].bom;
+    const bom: IBom | undefined = bomId ? starters.boms?.[bomId] : undefined;
+    if (bom !== undefined) {
+        lines.push(`BOM: \`${bom.groupId}:${bom.artifactId}:${bom.version}\``, "");
+    }
+    lines.push(
+        ...getStarterLinks(dependency, bootVersion).map(
+            (link) => `- ${_.capitalize(link.type)}: [${link.title ?? link.href}](${link.href})`
+        )
+    );
+    return lines;
+}
@@ -0,0 +1,157 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license.
+
+import * as coc from "coc.nvim";
+import { Element } from "domhandler";
+import * as _ from "lodash";
+import { platform } from "os";
+import { IMavenId, IStarters, serviceManager } from "../model";
+import { getDeletionRange, getIndentation } from "../Utils/documentHelper";
+import { getChildElements, getChildText, getNodesByTag, XmlTagName } from "../Utils/xml/lexer";
+
+const DEPENDENCY_END_TAG: string = "</dependency>";
+
+/**
+ * Get the <dependency> elements declared under <project><dependencies> of the pom.
+ */
+export function getDependencyElements(text: string): Element[] {
+    const projectNode: Element | undefined = getNodesByTag(text, XmlTagName.Project)[0] as Element | undefined;
+    if (projectNode === undefined) {
+        return [];
+    }
+    return getChildElements(projectNode, XmlTagName.Dependencies).flatMap((node) => getChildElements(node, XmlTagName.Dependency));
+}
+
+/**
+ * Get the <dependency> elements importing boms under <project><dependencyManagement><dependencies> of the pom.
+ */
+export function getBomElements(text: string): Element[] {
+    const projectNode: Element | undefined = getNodesByTag(text, XmlTagName.Project)[0] as Element | undefined;
+    if (projectNode === undefined) {
+        return [];
+    }
+    return getChildElements(projectNode, XmlTagName.DependencyManagement)
+        .flatMap((node) => getChildElements(node, XmlTagName.Dependencies))
+        .flatMap((node) => getChildElements(node, XmlTagName.Dependency));
+}
+
+/**
+ * Get the <dependency> element containing the offset, e.g. the cursor position.
+ */
+export function getDependencyElementAt(text: string, offset: number): Element | undefined {
+    return getDependencyElements(text).find((node) => (node.startIndex as number) <= offset && offset <= (node.endIndex as number));
+}
+
+/**
+ * Get id of the starter with the same coordinates as the <dependency> element.
+ */
+export function findStarterId(mavenIds: { [id: string]: IMavenId }, node: Element): string | undefined {
+    const groupId: string | undefined = getChildText(node, XmlTagName.GroupId);
+    const artifactId: string | undefined = getChildText(node, XmlTagName.ArtifactId);
+    return Object.keys(mavenIds).find((id) => mavenIds[id].groupId === groupId && mavenIds[id].artifactId === artifactId);
+}
+
+/**
+ * Merge the maven coordinates of starters available for any of the boot versions. Starters are only listed for boot
+ * versions they are compatible with, so incompatible ones have to be looked up for another version, e.g. the default.
+ */
+export async function getStarterMavenIds(serviceUrl: string, bootVersions: Array<string | undefined>): Promise<{ [id: string]: IMavenId }> {
+    const ret: { [id: string]: IMavenId } = {};
+    for (const bootVersion of bootVersions) {
+        // undefined when the boot version is not supported by the service any more, or the service is not reachable
+        const starters: IStarters | undefined = bootVersion ? await serviceManager.getStartersQuietly(serviceUrl, bootVersion) : undefined;
+        const dependencies: { [id: string]: IMavenId } = starters?.dependencies ?? {};
+        Object.keys(dependencies).forEach((id) => (ret[id] ??= dependencies[id]));
+    }
+    return ret;
+}
+
+/**
+ * Find the starter declared by the <dependency> element, looking it up for each of the boot versions in turn.
+ * @returns id of the starter and the starters of the first boot version listing it, or undefined if not a starter.
+ */
+export async function findStarter(
+    serviceUrl: string,
+    bootVersions: Array<string | undefined>,
+    node: Element
+): Promise<{ id: string; starters: IStarters } | undefined> {
+    for (const bootVersion of _.uniq(bootVersions)) {
+        if (!bootVersion) {
+            continue;
+        }
+        // undefined when the boot version is not supported by the service any more, or the service is not reachable
+        const starters: IStarters | undefined = await serviceManager.getStartersQuietly(serviceUrl, bootVersion);
+        const id: string | undefined = starters && findStarterId(starters.dependencies ?? {}, node);
+        if (starters !== undefined && id !== undefined) {
+            return { id, starters };
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Get the edits setting the coordinates of the <dependency> element to the ones of the starter. Existing elements are
+ * replaced, a missing group id is added before the artifact id and other missing elements before </dependency>. The
+ * version and scope are removed when the starter has none, e.g. a version managed by a bom.
+ * @param skipped elements left as they are, e.g. the one being completed.
+ */
+export function getCoordinateEdits(
+    document: coc.TextDocument,
+    node: Element,
+    mavenId: IMavenId,
+    indent: string,
+    skipped: string[] = []
+): coc.TextEdit[] {
+    const edits: coc.TextEdit[] = [];
+    const missing: string[] = [];
+    const setElement = (name: string, value: string | undefined) => {
+        if (skipped.includes(name)) {
+            return;
+        }
+        const element: Element | undefined = getChildElements(node, name)[0];
+        if (value === undefined) {
+            if (element !== undefined) {
+                edits.push(coc.TextEdit.del(getDeletionRange(document, element.startIndex as number, (element.endIndex as number) + 1)));
+            }
+            return;
+        }
+        const artifactIdElement: Element | undefined = getChildElements(node, XmlTagName.ArtifactId)[0];
+        const text: string = `<${name}>${value}</${name}>`;
+        if (element !== undefined) {
+            const range: coc.Range = coc.Range.create(
+                document.positionAt(element.startIndex as number),
+                document.positionAt((element.endIndex as number) + 1)
+            );
+            edits.push(coc.TextEdit.replace(range, text));
+        } else if (name === XmlTagName.GroupId && artifactIdElement !== undefined) {
+            const elementIndent: string = getIndentation(document, artifactIdElement.startIndex);
+            edits.push(
+                coc.TextEdit.insert(document.positionAt(artifactIdElement.startIndex as number), `${text}${getEol()}${elementIndent}`)
+            );
+        } else {
+            missing.push(text);
+        }
+    };
+
+    setElement(XmlTagName.GroupId, mavenId.groupId);
+    setElement(XmlTagName.ArtifactId, mavenId.artifactId);
+    setElement(XmlTagName.Version, mavenId.version);
+    setElement(XmlTagName.Scope, mavenId.scope && mavenId.scope !== "compile" ? mavenId.scope : undefined);
+
+    const endOffset: number = (node.endIndex as number) + 1 - DEPENDENCY_END_TAG.length;
+    if (missing.length > 0 && document.getText().substring(endOffset, endOffset + DEPENDENCY_END_TAG.length) === DEPENDENCY_END_TAG) {
+        const endPos: coc.Position = document.positionAt(endOffset);
+        const lineStart: coc.Position = coc.Position.create(endPos.line, 0);
+        if (document.getText(coc.Range.create(lineStart, endPos)).trim() === "") {
+            const elementIndent: string = getIndentation(document, endOffset) + indent;
+            edits.push(coc.TextEdit.insert(lineStart, missing.map((text) => `${elementIndent}${text}${getEol()}`).join("")));
+        } else {
+            edits.push(coc.TextEdit.insert(endPos, missing.join("")));
+        }
+    }
+    return edits;
+}
+
+export function getEol(): string {
+    return platform() !== "win32" ? "\n" : "\r\n";
+}